@@ -1,13 +1,36 @@
-import { AbstractIteratorOptions } from 'abstract-leveldown';
-import { MapDataSource, DataSource, CancellationToken } from 'aurumjs';
+import { AbstractIterator, AbstractIteratorOptions, AbstractLevelDOWN } from 'abstract-leveldown';
+import { ArrayDataSource, MapDataSource, DataSource, CancellationToken } from 'aurumjs';
+import * as encoding from 'encoding-down';
+import { once } from 'events';
 import * as level from 'level';
 import { LevelUp } from 'levelup';
-import * as sub from 'subleveldown';
-import { META_KEY } from './constants';
-import { AurumDBOrderedCollection } from './datastructures/ordered_list';
+import * as levelup from 'levelup';
+import * as subdown from 'subleveldown/leveldown';
+import { Writable } from 'stream';
+import { AurumDBChange, AurumDBChangeDraft, AurumDBChangeLog, AurumDBChangeLogConfig, AurumDBChangeLogStorage } from './change_log';
+import { AurumDBCodec, AurumDBCodecRegistry, LevelEncoding } from './codecs/registry';
+import { HEAD_KEY, LENGTH_KEY, META_KEY, NEXT_ID_KEY, TAIL_KEY } from './constants';
+import { AurumDBLinkedCollection } from './datastructures/linked_list';
+import { AurumDBOrderedCollection, AurumDBSnapshotOrderedCollection } from './datastructures/ordered_list';
 import { AurumDBStreamableIndex } from './datastructures/streamable_index';
+import { AurumDBCipher, AurumDBEncryptedStorage, AurumDBEncryptionConfig, AurumDBStructureEncryption, openEncryptedSubDb } from './encryption';
+import { AurumDBNotFoundError, AurumDBValidationError, AurumDBVersionConflictError } from './errors';
 import { AurumDBIterator } from './iterator';
 import { Encodings } from './leveldb';
+import {
+    AurumDBMigration,
+    AurumDBStructureDescription,
+    AurumDBStructureInfo,
+    AurumDBStructureMetadata,
+    AurumDBStructureType,
+    createMetadata,
+    isLegacyMetadata,
+} from './metadata';
+import { AurumDBExportOptions, AurumDBImportOptions, decodeEntryValue, encodeEntryValue, NDJSON_FORMAT, NDJSON_VERSION, readLines, writeLine } from './ndjson';
+import { AurumDBKeyRange, AurumDBQueryOptions, isInRange, toIteratorBounds } from './query';
+import { AurumDBInvalidRecord, AurumDBJsonSchema, AurumDBValidator, validate } from './schema';
+import { AurumDBSnapshotReader, decodeSnapshotValue } from './snapshot';
+import { AurumDBTransaction } from './transaction';
 import { AbstractBatch } from 'abstract-leveldown';
 
 type AurumDBIntegrityConfig = {
@@ -17,20 +40,53 @@ type AurumDBIntegrityConfig = {
 interface AurumDBConfig {
     path: string;
     integrity?: AurumDBIntegrityConfig;
+    /**
+     * Records every change to indexes and collections so clients can catch up on changes they missed. Streamable indexes are not recorded
+     */
+    changeLog?: boolean | AurumDBChangeLogConfig;
+    /**
+     * Encrypts the values of every structure created from now on, unless turned off when creating the structure. Structures created before stay as they are
+     */
+    encryption?: AurumDBEncryptionConfig;
 }
 
+export * from './change_log';
+export * from './codecs/cbor';
+export * from './codecs/msgpack';
+export * from './codecs/registry';
+export * from './codecs/rich_json';
+export * from './encryption';
+export * from './errors';
 export * from './iterator';
+export * from './metadata';
+export * from './ndjson';
+export * from './query';
+export * from './schema';
+export * from './snapshot';
+export * from './transaction';
+export * from './datastructures/linked_list';
 export * from './datastructures/ordered_list';
 export * from './datastructures/streamable_index';
 
 export async function initializeDatabase(config: AurumDBConfig): Promise<AurumDB> {
     const db = await level(config.path);
+    // The change log decodes values with the codecs registered on the database
+    const codecs = new AurumDBCodecRegistry();
+    let changeLog: AurumDBChangeLog;
+    if (config.changeLog) {
+        changeLog = new AurumDBChangeLog(db, config.changeLog === true ? {} : config.changeLog, codecs);
+        await changeLog.initialize();
+    }
 
     return new AurumDB(
         db,
         config.integrity ?? {
             autoDeleteOnSetUndefined: false,
-        }
+        },
+        changeLog,
+        undefined,
+        codecs,
+        config.encryption
     );
 }
 
@@ -41,31 +97,634 @@ function makeSubDbId(subDbName: string, id: string): string {
 export class AurumDB {
     protected config: AurumDBIntegrityConfig;
     protected db: LevelUp;
+    protected changeLog: AurumDBChangeLog;
+    /**
+     * Names of the structures this one is nested in, used to identify structures in the change log
+     */
+    protected structurePath: string;
+    /**
+     * One handle per sub db, so that every lookup of a structure shares the same change notifications and the same lock
+     */
+    private handles: Map<string, Promise<any>>;
+    private catalogObservers: ArrayDataSource<AurumDBStructureInfo>[];
+    /**
+     * Shared by a database and all structures nested in it
+     */
+    protected codecs: AurumDBCodecRegistry;
+    protected encryption: AurumDBEncryptionConfig;
+    /**
+     * The encryption layers of the open encrypted structures by sub db name, used to encrypt transactions and rotate keys
+     */
+    private encryptedStorages: Map<string, AurumDBEncryptedStorage>;
+    /**
+     * The change log layers of the open structures by sub db name, used to append the changes of transactions to their batch
+     */
+    private changeLogStorages: Map<string, AurumDBChangeLogStorage>;
 
-    constructor(db: LevelUp, config: AurumDBIntegrityConfig) {
+    constructor(
+        db: LevelUp,
+        config: AurumDBIntegrityConfig,
+        changeLog?: AurumDBChangeLog,
+        structurePath: string = '',
+        codecs: AurumDBCodecRegistry = new AurumDBCodecRegistry(),
+        encryption?: AurumDBEncryptionConfig
+    ) {
         this.config = config;
         this.db = db;
+        this.changeLog = changeLog;
+        this.structurePath = structurePath;
+        this.codecs = codecs;
+        this.encryption = encryption;
+        this.encryptedStorages = new Map();
+        this.changeLogStorages = new Map();
+        this.handles = new Map();
+        this.catalogObservers = [];
+    }
+
+    /**
+     * Makes the codec usable by name wherever an encoding is accepted, in this database and every structure in it.
+     * Structures store the name of their encoding, so the codec has to be registered again under the same name before they are opened after a restart
+     */
+    public registerCodec<T>(name: string, codec: AurumDBCodec<T>): void {
+        this.codecs.register(name, codec);
+    }
+
+    /**
+     * Iterates over all changes recorded after the given sequence number. Requires the change log to be enabled in the config
+     */
+    public changesSince(seq: number): AsyncGenerator<AurumDBChange> {
+        return this.getChangeLog().changesSince(seq);
+    }
+
+    /**
+     * Like changesSince but keeps appending changes as they happen until the token is cancelled, allowing clients to catch up on what they missed and then stay up to date
+     */
+    public observeChanges(fromSeq: number, cancellationToken: CancellationToken): Promise<ArrayDataSource<AurumDBChange>> {
+        return this.getChangeLog().observeChanges(fromSeq, cancellationToken);
+    }
+
+    /**
+     * Sequence number of the most recent change, clients can store it and pass it to changesSince when reconnecting
+     */
+    public getLastChangeSeq(): number {
+        return this.getChangeLog().getLastSeq();
+    }
+
+    private getChangeLog(): AurumDBChangeLog {
+        if (!this.changeLog) {
+            throw new Error('Change log is not enabled');
+        }
+        return this.changeLog;
+    }
+
+    /**
+     * Runs the callback and commits all writes made through the transaction as a single batch. If the callback throws nothing is written and the error is rethrown.
+     * Structures used in the transaction are locked during the commit, do not await writes through regular handles of the same structures inside the callback
+     */
+    public async transaction<R>(body: (tx: AurumDBTransaction) => Promise<R>): Promise<R> {
+        const tx = new AurumDBTransaction(this.db, {
+            getIndex: async <T>(name: string) => ({
+                keyPrefix: makeSubDbId(name + DataTypeKeyPrefix.index, ''),
+                handle: await this.getIndex<T>(name),
+                encoding: this.codecs.resolve((await this.readMetadata(name + DataTypeKeyPrefix.index, 'index')).encoding),
+                sealBatch: this.getSealBatch(name + DataTypeKeyPrefix.index),
+                describeChanges: this.getDescribeChanges(name + DataTypeKeyPrefix.index),
+            }),
+            getOrderedCollection: async <T>(name: string) => ({
+                keyPrefix: makeSubDbId(name + DataTypeKeyPrefix.orderedCollection, ''),
+                handle: await this.getOrderedCollection<T>(name),
+                encoding: this.codecs.resolve((await this.readMetadata(name + DataTypeKeyPrefix.orderedCollection, 'ordered')).encoding),
+                sealBatch: this.getSealBatch(name + DataTypeKeyPrefix.orderedCollection),
+                describeChanges: this.getDescribeChanges(name + DataTypeKeyPrefix.orderedCollection),
+            }),
+            resolveEncoding: (encoding) => this.codecs.resolve(encoding),
+            changeLog: this.changeLog,
+        });
+
+        let result: R;
+        try {
+            result = await body(tx);
+        } catch (e) {
+            tx.rollback();
+            throw e;
+        }
+        await tx.commit();
+        return result;
+    }
+
+    /**
+     * Only valid once the structure is open
+     */
+    private getSealBatch(subDbName: string): (ops: AbstractBatch[]) => AbstractBatch[] {
+        const storage = this.encryptedStorages.get(subDbName);
+        return storage && ((ops) => storage.sealBatch(ops));
+    }
+
+    /**
+     * Only valid once the structure is open
+     */
+    private getDescribeChanges(subDbName: string): (ops: AbstractBatch[]) => AurumDBChangeDraft[] {
+        const storage = this.changeLogStorages.get(subDbName);
+        return storage && ((ops) => storage.describeChanges(ops));
+    }
+
+    /**
+     * Returns the handle already open for the sub db if there is one
+     */
+    private getOrOpen<H>(subDbName: string, open: () => Promise<H>): Promise<H> {
+        if (!this.handles.has(subDbName)) {
+            const opening = open();
+            this.handles.set(subDbName, opening);
+            opening.catch(() => {
+                if (this.handles.get(subDbName) === opening) {
+                    this.handles.delete(subDbName);
+                }
+            });
+        }
+        return this.handles.get(subDbName);
+    }
+
+    /**
+     * Called when a structure is created. Replaces any handle left over from a deleted structure with the same name
+     */
+    private register<H>(name: string, metadata: AurumDBStructureMetadata, handle: H): H {
+        this.handles.set(name + metadata.type, Promise.resolve(handle));
+        const info: AurumDBStructureInfo = { name, type: metadata.type, createdAt: metadata.createdAt, children: [] };
+        for (const ads of this.catalogObservers) {
+            ads.push(info);
+        }
+        return handle;
+    }
+
+    /**
+     * Called when a structure is deleted
+     */
+    protected unregister(name: string, type: AurumDBStructureType): void {
+        if (this.handles.has(name + type)) {
+            closeHandle(this.handles.get(name + type));
+        }
+        this.handles.delete(name + type);
+        this.encryptedStorages.delete(name + type);
+        this.changeLogStorages.delete(name + type);
+        for (const ads of this.catalogObservers) {
+            const index = ads.getData().findIndex((info) => info.name === name && info.type === type);
+            if (index !== -1) {
+                ads.removeAt(index);
+            }
+        }
+    }
+
+    protected async getStructure(name: string, type: AurumDBStructureType): Promise<AurumDBNestedStructure> {
+        switch (type) {
+            case 'index':
+                return { type, name, handle: await this.getIndex(name) };
+            case 'ordered':
+                return { type, name, handle: await this.getOrderedCollection(name) };
+            case 'linked':
+                return { type, name, handle: await this.getLinkedCollection(name) };
+            case 'streamableIndex':
+                return { type, name, handle: await this.getStreamableIndex(name) };
+        }
+    }
+
+    /**
+     * Lists all structures directly inside this database or index, including the structures nested inside of indexes. Internal data such as secondary indexes is left out
+     */
+    public async listStructures(): Promise<AurumDBStructureInfo[]> {
+        const structures: AurumDBStructureInfo[] = [];
+        let cursor = '!';
+        while (true) {
+            const key = await this.findKeyAfter(cursor);
+            if (key === undefined) {
+                break;
+            }
+            const subDbName = getSubDbName(key);
+            if (subDbName === undefined) {
+                cursor = key + '\x00';
+                continue;
+            }
+            // Every key of the sub db starts with this prefix, continuing after it skips the entire sub db
+            cursor = '!' + subDbName + '"';
+
+            const type = getStructureType(subDbName);
+            if (type === undefined || !(await this.has(makeSubDbId(subDbName, META_KEY)))) {
+                continue;
+            }
+            const name = subDbName.substring(0, subDbName.length - type.length);
+            const metadata = await this.readMetadata(subDbName, type);
+            structures.push({
+                name,
+                type,
+                createdAt: metadata.createdAt,
+                children: type === 'index' ? await (await this.getIndex(name)).listStructures() : [],
+            });
+        }
+        return structures;
+    }
+
+    /**
+     * Counts the entries of a structure and sums up the size of its data, both require reading the entire structure
+     */
+    public async describe(name: string, type: AurumDBStructureType = 'index'): Promise<AurumDBStructureDescription> {
+        const metadata = await this.getMetadata(name, type);
+        const subDbName = name + type;
+        let entryCount = 0;
+        let approximateSize = 0;
+
+        const raw = new AurumDBIterator<Buffer>(this.db.iterator({ gt: makeSubDbId(subDbName, ''), lt: '!' + subDbName + '"', valueEncoding: 'binary' }));
+        for await (const { key, value } of raw.asGenerator()) {
+            approximateSize += Buffer.byteLength(key) + value.length;
+            // level-stream-access marks every record with a key ending in ' #'
+            if (type === 'streamableIndex' && key.endsWith(' #')) {
+                entryCount++;
+            }
+        }
+
+        if (type === 'index') {
+            for await (const _ of (await this.getIndex(name)).iterator({ values: false }).asGenerator()) {
+                entryCount++;
+            }
+        } else if (type === 'ordered') {
+            entryCount = await (await this.getOrderedCollection(name)).length();
+        } else if (type === 'linked') {
+            entryCount = await (await this.getLinkedCollection(name)).length();
+        }
+
+        return { name, type, metadata, entryCount, approximateSize };
+    }
+
+    /**
+     * Contains the structures directly inside this database or index and updates when structures are created or deleted through it.
+     * The children of the entries are not updated, nested structures can be observed through the catalog of their index
+     */
+    public async observeCatalog(cancellationToken: CancellationToken): Promise<ArrayDataSource<AurumDBStructureInfo>> {
+        const ads = new ArrayDataSource(await this.listStructures());
+        this.catalogObservers.push(ads);
+        cancellationToken.addCancelable(() => {
+            const index = this.catalogObservers.indexOf(ads);
+            if (index !== -1) {
+                this.catalogObservers.splice(index, 1);
+            }
+        });
+        return ads;
+    }
+
+    /**
+     * Called when all structures are removed at once
+     */
+    protected onStructuresCleared(): void {
+        this.closeHandles();
+        this.handles.clear();
+        this.encryptedStorages.clear();
+        this.changeLogStorages.clear();
+        for (const ads of this.catalogObservers) {
+            ads.clear();
+        }
+    }
+
+    /**
+     * Writes the structures as newline delimited JSON, one line per entry, collection item, stream record and binary chunk.
+     * Structures nested inside exported indexes are always included. The writable is not ended so multiple exports can be written to the same stream
+     */
+    public async exportTo(writable: NodeJS.WritableStream, options: AurumDBExportOptions = {}): Promise<void> {
+        await writeLine(writable, { kind: 'header', format: NDJSON_FORMAT, version: NDJSON_VERSION });
+        for (const structure of await this.listStructures()) {
+            if (!options.structures || options.structures.includes(structure.name)) {
+                await this.exportStructure(writable, [], structure);
+            }
+        }
+    }
+
+    /**
+     * Reads an export written by exportTo. Values are written through the regular handles so observers are notified, validators are applied and collection lengths stay consistent
+     */
+    public async importFrom(readable: NodeJS.ReadableStream, options: AurumDBImportOptions = {}): Promise<void> {
+        const mode = options.mode ?? 'merge';
+        let header = false;
+        let target: { path: string; structure: AurumDBNestedStructure; codec: LevelEncoding };
+        let recording: { key: string; index: AurumDBStreamableIndex<any>; stream: Writable; metadata: any };
+
+        const finishRecording = async () => {
+            const { key, index, stream, metadata } = recording;
+            recording = undefined;
+            const closed = once(stream, 'close');
+            stream.end();
+            await closed;
+            if (metadata !== undefined) {
+                await index.setMetadata(key, metadata);
+            }
+        };
+
+        for await (const line of readLines(readable)) {
+            if (!header) {
+                if (line.kind !== 'header' || line.format !== NDJSON_FORMAT || line.version > NDJSON_VERSION) {
+                    throw new Error('Not a supported AurumDB export');
+                }
+                header = true;
+                continue;
+            }
+            if (recording && (line.kind !== 'chunk' || line.key !== recording.key)) {
+                await finishRecording();
+            }
+            if (line.kind === 'structure') {
+                let parent: AurumDB = this;
+                for (const name of line.path.slice(0, -1)) {
+                    parent = await parent.getIndex(name);
+                }
+                const structure = await parent.importStructure(line.path[line.path.length - 1], line.type, line.metadata, mode);
+                target = { path: line.path.join('/'), structure, codec: this.codecs.get(line.metadata?.encoding) };
+                continue;
+            }
+            if (line.kind === 'header' || !target || line.path.join('/') !== target.path) {
+                throw new Error(`Unexpected ${line.kind} line in AurumDB export`);
+            }
+            const { structure } = target;
+            switch (line.kind) {
+                case 'entry':
+                    if (structure.type === 'index') {
+                        await structure.handle.set(line.key, decodeEntryValue(line, target.codec));
+                    } else if (structure.type === 'ordered' || structure.type === 'linked') {
+                        await structure.handle.push(decodeEntryValue(line, target.codec));
+                    } else {
+                        throw new Error(`Unexpected entry line for streamable index ${structure.name} in AurumDB export`);
+                    }
+                    break;
+                case 'record':
+                    if (structure.type !== 'streamableIndex') {
+                        throw new Error(`Unexpected record line for ${structure.type} ${structure.name} in AurumDB export`);
+                    }
+                    recording = { key: line.key, index: structure.handle, stream: await structure.handle.write(line.key), metadata: line.metadata };
+                    break;
+                case 'chunk':
+                    if (!recording) {
+                        throw new Error(`Chunk of ${line.key} without a record in AurumDB export`);
+                    }
+                    if (!recording.stream.write(Buffer.from(line.base64, 'base64'))) {
+                        await once(recording.stream, 'drain');
+                    }
+                    break;
+            }
+        }
+        if (recording) {
+            await finishRecording();
+        }
+    }
+
+    private async exportStructure(writable: NodeJS.WritableStream, parentPath: string[], info: AurumDBStructureInfo): Promise<void> {
+        const path = [...parentPath, info.name];
+        const subDbName = info.name + info.type;
+        const metadata = await this.readMetadata(subDbName, info.type);
+        const codec = this.codecs.get(metadata.encoding);
+        await writeLine(writable, { kind: 'structure', path, type: info.type, metadata });
+
+        switch (info.type) {
+            case 'index': {
+                const index = await this.getIndex<any>(info.name);
+                for await (const { key, value } of index.iterator().asGenerator()) {
+                    await writeLine(writable, { kind: 'entry', path, key, ...encodeEntryValue(value, codec) });
+                }
+                for (const child of info.children) {
+                    await index.exportStructure(writable, path, child);
+                }
+                break;
+            }
+            case 'ordered': {
+                const collection = await this.getOrderedCollection<any>(info.name);
+                const length = await collection.length();
+                for (let start = 0; start < length; start += WRITE_BATCH_SIZE) {
+                    for (const item of await collection.slice(start, Math.min(length, start + WRITE_BATCH_SIZE))) {
+                        await writeLine(writable, { kind: 'entry', path, ...encodeEntryValue(item, codec) });
+                    }
+                }
+                break;
+            }
+            case 'linked': {
+                for await (const { value } of (await this.getLinkedCollection<any>(info.name)).iterator().asGenerator()) {
+                    await writeLine(writable, { kind: 'entry', path, ...encodeEntryValue(value) });
+                }
+                break;
+            }
+            case 'streamableIndex': {
+                const streamable = await this.getStreamableIndex<any>(info.name);
+                const prefix = makeSubDbId(subDbName, '');
+                const keys = new AurumDBIterator<any>(this.db.iterator({ gt: prefix, lt: '!' + subDbName + '"', values: false }));
+                for await (const { key } of keys.asGenerator()) {
+                    // level-stream-access marks every record with a key ending in ' #'
+                    if (!key.endsWith(' #')) {
+                        continue;
+                    }
+                    const recordKey = key.substring(prefix.length, key.length - 2);
+                    await writeLine(writable, {
+                        kind: 'record',
+                        path,
+                        key: recordKey,
+                        metadata: await streamable.getMetadata(recordKey).catch(() => undefined),
+                    });
+                    for await (const chunk of streamable.read(recordKey)) {
+                        await writeLine(writable, { kind: 'chunk', path, key: recordKey, base64: chunk.toString('base64') });
+                    }
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Opens the structure an import writes into, in replace mode an existing structure is deleted first
+     */
+    private async importStructure(
+        name: string,
+        type: AurumDBStructureType,
+        metadata: AurumDBStructureMetadata,
+        mode: 'merge' | 'replace'
+    ): Promise<AurumDBNestedStructure> {
+        let exists = await this.has(makeSubDbId(name + type, META_KEY));
+        if (exists && mode === 'replace') {
+            switch (type) {
+                case 'index':
+                    await this.deleteIndex(name);
+                    break;
+                case 'ordered':
+                    await this.deleteOrderedCollection(name);
+                    break;
+                case 'linked':
+                    await this.deletedLinkedCollection(name);
+                    break;
+                case 'streamableIndex':
+                    await this.deleteStreamableIndex(name);
+                    break;
+            }
+            exists = false;
+        }
+
+        if (exists) {
+            return this.getStructure(name, type);
+        }
+
+        let structure: AurumDBNestedStructure;
+        switch (type) {
+            case 'index':
+                structure = { type, name, handle: await this.createIndex(name, metadata.encoding) };
+                break;
+            case 'ordered':
+                structure = { type, name, handle: await this.createOrderedCollection(name, metadata.encoding) };
+                break;
+            case 'linked':
+                structure = { type, name, handle: await this.createLinkedCollection(name) };
+                break;
+            case 'streamableIndex':
+                structure = { type, name, handle: await this.createStreamableIndex(name) };
+                break;
+        }
+        // Keeps the creation date, schema version and tags of the exported structure. Whether it is encrypted depends on this database
+        await this.writeMetadata(name + type, { ...metadata, encryption: (await this.readMetadata(name + type, type)).encryption });
+        return structure;
+    }
+
+    private async findKeyAfter(cursor: string): Promise<string> {
+        const iter = new AurumDBIterator<any>(this.db.iterator({ gte: cursor, lt: '"', values: false }));
+        const entry = await iter.next();
+        if (entry) {
+            await iter.end();
+        }
+        return entry?.key;
+    }
+
+    /**
+     * Reads the metadata record of a structure. Structures created before the record existed are upgraded in place
+     */
+    public async getMetadata(name: string, type: AurumDBStructureType = 'index'): Promise<AurumDBStructureMetadata> {
+        if (!(await this.has(makeSubDbId(name + type, META_KEY)))) {
+            throw new Error(`${type} ${name} does not exist`);
+        }
+        return this.readMetadata(name + type, type);
+    }
+
+    /**
+     * Replaces the user defined tags of a structure
+     */
+    public async setTags(name: string, tags: { [tag: string]: string }, type: AurumDBStructureType = 'index'): Promise<void> {
+        const metadata = await this.getMetadata(name, type);
+        await this.writeMetadata(name + type, { ...metadata, tags });
+    }
+
+    /**
+     * Rewrites every value of an index or ordered collection with the transform and sets the schema version of the structure to the target version.
+     * Values are rewritten in batches, each batch being a transaction. If the migration fails the structure stays at the old version with part of the values already transformed.
+     * A validator on the structure has to accept the transformed values
+     */
+    public async migrate<T, R = T>(name: string, migration: AurumDBMigration<T, R>): Promise<void> {
+        const type = migration.type ?? 'index';
+        const metadata = await this.getMetadata(name, type);
+        if (metadata.schemaVersion !== migration.from) {
+            throw new Error(`Cannot migrate ${name} from version ${migration.from}, it is at version ${metadata.schemaVersion}`);
+        }
+
+        if (type === 'index') {
+            const index = await this.getIndex<T>(name);
+            let keys: string[] = [];
+            const migrateBatch = () =>
+                this.transaction(async (tx) => {
+                    const txIndex = await tx.getIndex<any>(name);
+                    for (const key of keys) {
+                        if (await txIndex.has(key)) {
+                            txIndex.set(key, await migration.transform(await txIndex.get(key), key));
+                        }
+                    }
+                });
+
+            for await (const { key } of index.iterator().asGenerator()) {
+                keys.push(key);
+                if (keys.length >= WRITE_BATCH_SIZE) {
+                    await migrateBatch();
+                    keys = [];
+                }
+            }
+            if (keys.length) {
+                await migrateBatch();
+            }
+        } else {
+            const collection = await this.getOrderedCollection<T>(name);
+            const length = await collection.length();
+            for (let start = 0; start < length; start += WRITE_BATCH_SIZE) {
+                await this.transaction(async (tx) => {
+                    const txCollection = await tx.getOrderedCollection<any>(name);
+                    const items = await collection.slice(start, Math.min(length, start + WRITE_BATCH_SIZE));
+                    for (let i = 0; i < items.length; i++) {
+                        await txCollection.set(start + i, await migration.transform(items[i], (start + i).toString()));
+                    }
+                });
+            }
+        }
+
+        await this.writeMetadata(name + type, { ...(await this.readMetadata(name + type, type)), schemaVersion: migration.to });
+    }
+
+    private async readMetadata(subDbName: string, type: AurumDBStructureType): Promise<AurumDBStructureMetadata> {
+        const key = makeSubDbId(subDbName, META_KEY);
+        const metadata = await this.db.get(key, { valueEncoding: 'json' });
+        if (!isLegacyMetadata(metadata)) {
+            return metadata;
+        }
+
+        const upgraded = createMetadata(type);
+        const ops: AbstractBatch[] = [{ type: 'put', key, value: upgraded, valueEncoding: 'json' } as AbstractBatch];
+        if (typeof metadata === 'string') {
+            upgraded.createdAt = metadata;
+        } else {
+            ops.push({ type: 'put', key: makeSubDbId(subDbName, LENGTH_KEY), value: metadata, valueEncoding: 'json' } as AbstractBatch);
+        }
+        await this.db.batch(ops);
+        return upgraded;
+    }
+
+    private writeMetadata(subDbName: string, metadata: AurumDBStructureMetadata): Promise<void> {
+        return this.db.put(makeSubDbId(subDbName, META_KEY), metadata, { valueEncoding: 'json' });
+    }
+
+    /**
+     * Takes a consistent read only view of the entire database. Reads through the snapshot and the structures it returns never see writes made after it was taken.
+     * The snapshot holds on to data leveldb could otherwise discard, release it or cancel the token once done reading
+     */
+    public snapshot(cancellationToken?: CancellationToken): AurumDBSnapshot {
+        return new AurumDBSnapshot(new AurumDBSnapshotReader(this.db, this.codecs, cancellationToken, this.encryption?.keyProvider));
+    }
+
+    /**
+     * Stops the background work of all open structures, such as sweeping expired keys, and closes the database. Handles can not be used afterwards
+     */
+    public async close(): Promise<void> {
+        await this.closeHandles();
+        await this.db.close();
+    }
+
+    protected async closeHandles(): Promise<void> {
+        await Promise.all(Array.from(this.handles.values(), closeHandle));
     }
 
     public iterator(options?: AbstractIteratorOptions): AurumDBIterator<any> {
-        return new AurumDBIterator<any>(this.db.iterator(options));
+        return new AurumDBIterator<any>((projection) => this.db.iterator({ ...options, ...projection }));
     }
 
-    public clear(): Promise<void> {
-        return this.db.clear();
+    public async clear(): Promise<void> {
+        await this.db.clear();
+        this.onStructuresCleared();
     }
 
     public async deleteIndex(name: string): Promise<void> {
         const index = await this.getIndex(name);
         await index.db.clear();
+        this.unregister(name, 'index');
     }
 
     public async deleteOrderedCollection(name: string): Promise<void> {
-        return ((await this.getOrderedCollection(name)) as any).db.clear();
+        await ((await this.getOrderedCollection(name)) as any).db.clear();
+        this.unregister(name, 'ordered');
     }
 
     public async deletedLinkedCollection(name: string): Promise<void> {
-        return ((await this.getLinkedCollection(name)) as any).db.clear();
+        await ((await this.getLinkedCollection(name)) as any).db.clear();
+        this.unregister(name, 'linked');
     }
 
     public hasIndex(name: string): Promise<boolean> {
@@ -95,7 +754,10 @@ export class AurumDB {
 
     public async getIndex<T>(name: string): Promise<AurumDBIndex<T>> {
         if (await this.hasIndex(name)) {
-            return new AurumDBIndex<T>(sub(this.db, name + DataTypeKeyPrefix.index), this.config);
+            return this.getOrOpen(name + DataTypeKeyPrefix.index, async () => {
+                const metadata = await this.readMetadata(name + DataTypeKeyPrefix.index, 'index');
+                return this.openIndex<T>(name, metadata.encoding, metadata.encryption);
+            });
         } else {
             throw new Error(`Index ${name} does not exist`);
         }
@@ -103,12 +765,10 @@ export class AurumDB {
 
     public async createOrGetIndex<T>(name: string, defaultEncoding?: Encodings): Promise<AurumDBIndex<T>> {
         if (await this.hasIndex(name)) {
-            return new AurumDBIndex<T>(
-                sub(this.db, name + DataTypeKeyPrefix.index, {
-                    valueEncoding: defaultEncoding,
-                }),
-                this.config
-            );
+            return this.getOrOpen(name + DataTypeKeyPrefix.index, async () => {
+                const metadata = await this.readMetadata(name + DataTypeKeyPrefix.index, 'index');
+                return this.openIndex<T>(name, metadata.encoding ?? defaultEncoding, metadata.encryption);
+            });
         } else {
             return this.createIndex(name, defaultEncoding);
         }
@@ -118,6 +778,7 @@ export class AurumDB {
         const index = await this.getStreamableIndex(name);
         //@ts-ignore
         await index.db.clear();
+        this.unregister(name, 'streamableIndex');
     }
 
     public hasStreamableIndex(name: string): Promise<boolean> {
@@ -126,7 +787,10 @@ export class AurumDB {
 
     public async getStreamableIndex<T>(name: string): Promise<AurumDBStreamableIndex<T>> {
         if (await this.hasStreamableIndex(name)) {
-            return new AurumDBStreamableIndex(sub(this.db, name + DataTypeKeyPrefix.streamableIndex));
+            return this.getOrOpen(name + DataTypeKeyPrefix.streamableIndex, async () => {
+                const metadata = await this.readMetadata(name + DataTypeKeyPrefix.streamableIndex, 'streamableIndex');
+                return new AurumDBStreamableIndex<T>(this.openSubDb(name, DataTypeKeyPrefix.streamableIndex, undefined, undefined, metadata.encryption));
+            });
         } else {
             throw new Error(`Index ${name} does not exist`);
         }
@@ -134,7 +798,7 @@ export class AurumDB {
 
     public async createOrGetStreamableIndex<T>(name: string): Promise<AurumDBStreamableIndex<T>> {
         if (await this.hasStreamableIndex(name)) {
-            return new AurumDBStreamableIndex(sub(this.db, name + DataTypeKeyPrefix.streamableIndex, {}));
+            return this.getStreamableIndex(name);
         } else {
             return this.createStreamableIndex(name);
         }
@@ -145,20 +809,22 @@ export class AurumDB {
      * Suitable use cases: Storing large binary blobs, storing video, storing images, storing any value too large to fit in memory
      * Unsuitable use cases: Storing lots of small values, storing non streamable data types such as json
      */
-    public async createStreamableIndex<T>(name: string): Promise<AurumDBStreamableIndex<T>> {
+    public async createStreamableIndex<T>(name: string, encryption?: AurumDBStructureEncryption): Promise<AurumDBStreamableIndex<T>> {
         if (await this.hasStreamableIndex(name)) {
             throw new Error(`Streamable Index ${name} already exists`);
         }
-        name += DataTypeKeyPrefix.streamableIndex;
-        await this.db.put(makeSubDbId(name, META_KEY), new Date().toJSON(), {
-            valueEncoding: 'json',
-        });
-        return new AurumDBStreamableIndex(sub(this.db, name));
+        const metadata = createMetadata('streamableIndex', undefined, this.resolveEncryption(encryption, 'streamableIndex'));
+        const opened = new AurumDBStreamableIndex<T>(this.openSubDb(name, DataTypeKeyPrefix.streamableIndex, undefined, undefined, metadata.encryption));
+        await this.writeMetadata(name + DataTypeKeyPrefix.streamableIndex, metadata);
+        return this.register(name, metadata, opened);
     }
 
     public async getOrderedCollection<T>(name: string): Promise<AurumDBOrderedCollection<T>> {
         if (await this.hasOrderedCollection(name)) {
-            return new AurumDBOrderedCollection<T>(sub(this.db, name + DataTypeKeyPrefix.orderedCollection));
+            return this.getOrOpen(name + DataTypeKeyPrefix.orderedCollection, async () => {
+                const metadata = await this.readMetadata(name + DataTypeKeyPrefix.orderedCollection, 'ordered');
+                return this.openOrderedCollection<T>(name, metadata.encoding, metadata.encryption);
+            });
         } else {
             throw new Error(`Ordered collection ${name} does not exist`);
         }
@@ -166,11 +832,10 @@ export class AurumDB {
 
     public async createOrGetOrderedCollection<T>(name: string, defaultEncoding?: Encodings): Promise<AurumDBOrderedCollection<T>> {
         if (await this.hasOrderedCollection(name)) {
-            return new AurumDBOrderedCollection<T>(
-                sub(this.db, name + DataTypeKeyPrefix.orderedCollection, {
-                    valueEncoding: defaultEncoding,
-                })
-            );
+            return this.getOrOpen(name + DataTypeKeyPrefix.orderedCollection, async () => {
+                const metadata = await this.readMetadata(name + DataTypeKeyPrefix.orderedCollection, 'ordered');
+                return this.openOrderedCollection<T>(name, metadata.encoding ?? defaultEncoding, metadata.encryption);
+            });
         } else {
             return this.createOrderedCollection(name, defaultEncoding);
         }
@@ -178,7 +843,9 @@ export class AurumDB {
 
     public async getLinkedCollection<T>(name: string): Promise<AurumDBLinkedCollection<T>> {
         if (await this.hasLinkedCollection(name)) {
-            return new AurumDBLinkedCollection<T>(sub(this.db, name + DataTypeKeyPrefix.linkedCollection));
+            return this.getOrOpen(name + DataTypeKeyPrefix.linkedCollection, async () =>
+                this.openLinkedCollection<T>(name, (await this.readMetadata(name + DataTypeKeyPrefix.linkedCollection, 'linked')).encryption)
+            );
         } else {
             throw new Error(`Linked collection ${name} does not exist`);
         }
@@ -186,7 +853,9 @@ export class AurumDB {
 
     public async createOrGetLinkedCollection<T>(name: string): Promise<AurumDBLinkedCollection<T>> {
         if (await this.hasLinkedCollection(name)) {
-            return new AurumDBLinkedCollection<T>(sub(this.db, name + DataTypeKeyPrefix.linkedCollection));
+            return this.getOrOpen(name + DataTypeKeyPrefix.linkedCollection, async () =>
+                this.openLinkedCollection<T>(name, (await this.readMetadata(name + DataTypeKeyPrefix.linkedCollection, 'linked')).encryption)
+            );
         } else {
             return this.createLinkedCollection(name);
         }
@@ -196,21 +865,26 @@ export class AurumDB {
      * An index is a basically a hashmap, each item is referred by key, however you can also iterate over the entire set of key values
      * Suitable use cases: Unordered lists, Hash maps, Nested Hash maps
      * Unsuitable use cases: Stacks, Ordered lists, Queues, storing large values (>50 MB), Storing video, Storing images
+     * Encryption overrides the encryption config of the database for this index
      */
-    public async createIndex<T>(name: string, defaultEncoding?: Encodings): Promise<AurumDBIndex<T>> {
+    public async createIndex<T>(
+        name: string,
+        defaultEncoding?: Encodings,
+        validator?: AurumDBValidator<T>,
+        encryption?: AurumDBStructureEncryption
+    ): Promise<AurumDBIndex<T>> {
         if (await this.hasIndex(name)) {
             throw new Error(`Index ${name} already exists`);
         }
-        name += DataTypeKeyPrefix.index;
-        await this.db.put(makeSubDbId(name, META_KEY), new Date().toJSON(), {
-            valueEncoding: 'json',
-        });
-        return new AurumDBIndex<T>(
-            sub(this.db, name, {
-                valueEncoding: defaultEncoding,
-            }),
-            this.config
-        );
+        const metadata = createMetadata('index', defaultEncoding, this.resolveEncryption(encryption, 'index'));
+        // Opening first makes an unknown encoding fail before anything is written
+        const opened = this.openIndex<T>(name, defaultEncoding, metadata.encryption);
+        await this.writeMetadata(name + DataTypeKeyPrefix.index, metadata);
+        const index = this.register(name, metadata, opened);
+        if (validator) {
+            await index.setValidator(validator);
+        }
+        return index;
     }
 
     /**
@@ -218,23 +892,28 @@ export class AurumDB {
      * Suitable use cases: Stacks, Append only list, Random access lists
      * Unsuitable: Queues, Hash Maps, storing large values (>50 MB), Storing video, Storing images
      */
-    public async createOrderedCollection<T>(name: string, defaultEncoding?: Encodings): Promise<AurumDBOrderedCollection<T>> {
+    public async createOrderedCollection<T>(
+        name: string,
+        defaultEncoding?: Encodings,
+        validator?: AurumDBValidator<T>,
+        encryption?: AurumDBStructureEncryption
+    ): Promise<AurumDBOrderedCollection<T>> {
         if (await this.hasOrderedCollection(name)) {
             throw new Error(`Ordered Collection ${name} already exists`);
         }
-        name += DataTypeKeyPrefix.orderedCollection;
-        await this.db.put(makeSubDbId(name, META_KEY), 0, {
-            valueEncoding: 'json',
-        });
-        return new AurumDBOrderedCollection<T>(
-            sub(this.db, name, {
-                valueEncoding: defaultEncoding,
-            })
-        );
+        const metadata = createMetadata('ordered', defaultEncoding, this.resolveEncryption(encryption, 'ordered'));
+        const opened = this.openOrderedCollection<T>(name, defaultEncoding, metadata.encryption);
+        await this.db.batch(makeCollectionCreation(name + DataTypeKeyPrefix.orderedCollection, metadata));
+        const collection = this.register(name, metadata, opened);
+        if (validator) {
+            await collection.setValidator(validator);
+        }
+        return collection;
     }
 
     /**
-     * A linked collection is basically a linked list. Delete and Insert of items is relatively cheap. Write operations lock only part of the collection. Iteration is fine, but random access is expensive
+     * A linked collection is basically a linked list. Delete and Insert of items is relatively cheap, each write only touches the neighbouring nodes. Iteration is fine, but random access is expensive
+     * Nodes are addressed by the id returned when inserting them
      * Suitable use cases: Queues, Stacks, Append only list (but ordered collection is faster for that)
      * Unsuitable: Random access lists, Hash Maps, storing large values (>50 MB), Storing video, Storing images
      */
@@ -242,55 +921,194 @@ export class AurumDB {
         if (await this.hasLinkedCollection(name)) {
             throw new Error(`Linked Collection ${name} already exists`);
         }
-        name += DataTypeKeyPrefix.linkedCollection;
-        await this.db.put(makeSubDbId(name, META_KEY), 0, {
-            valueEncoding: 'json',
-        });
-        return new AurumDBLinkedCollection<T>(sub(this.db, name));
+        const metadata = createMetadata('linked', 'json', this.resolveEncryption(undefined, 'linked'));
+        const opened = this.openLinkedCollection<T>(name, metadata.encryption);
+        await this.db.batch(makeCollectionCreation(name + DataTypeKeyPrefix.linkedCollection, metadata));
+        return this.register(name, metadata, opened);
     }
-}
 
-export class AurumDBLinkedCollection<T> {
-    protected db: LevelUp;
+    /**
+     * Re-encrypts every value of an encrypted structure with the current key of the key provider, in batches. Writes to the structure wait while a batch is rewritten.
+     * Returns the amount of values that were encrypted with an older key. Structures nested inside an index have to be rotated through the index
+     */
+    public async rotateEncryptionKey(name: string, type: AurumDBStructureType = 'index'): Promise<number> {
+        const metadata = await this.getMetadata(name, type);
+        if (!metadata.encryption) {
+            throw new Error(`${type} ${name} is not encrypted`);
+        }
+        const structure = await this.getStructure(name, type);
+        // Only indexes and ordered collections expose the lock their writes wait for
+        return this.encryptedStorages
+            .get(name + type)
+            .rotate(WRITE_BATCH_SIZE, (step) => (structure.type === 'index' || structure.type === 'ordered' ? structure.handle.lockForCommit(step) : step()));
+    }
 
-    constructor(db: LevelUp) {
-        this.db = db;
+    /**
+     * Applies the encryption config of the database to the override passed when creating a structure, returns undefined for structures that are stored in plain text
+     */
+    private resolveEncryption(override: AurumDBStructureEncryption, type: AurumDBStructureType): { hashKeys: boolean } {
+        if (override === false || (override === undefined && !this.encryption)) {
+            return undefined;
+        }
+        if (!this.encryption) {
+            throw new Error('Encryption requires a key provider in the database config');
+        }
+        const hashKeys = typeof override === 'object' && override.hashKeys !== undefined ? override.hashKeys : type === 'index' && !!this.encryption.hashKeys;
+        if (hashKeys && type !== 'index') {
+            throw new Error('Only indexes can hash their keys');
+        }
+        return { hashKeys };
     }
 
-    public clear(): Promise<void> {
-        return this.db.clear();
+    private openIndex<T>(name: string, defaultEncoding?: Encodings, encryption?: { hashKeys: boolean }): AurumDBIndex<T> {
+        const db = this.openSubDb(name, DataTypeKeyPrefix.index, defaultEncoding, (key) => isHiddenKey(key) || isStructureKey(key), encryption);
+        return new AurumDBIndex<T>(db, this.config, this.changeLog, this.structurePath + name + '/', this.codecs, this.encryption);
     }
-}
 
-export class AurumDBIndex<T> extends AurumDB {
-    private totalObservers: MapDataSource<string, any>[];
-    private keyObservers: Map<string, DataSource<any>[]>;
+    private openOrderedCollection<T>(name: string, defaultEncoding?: Encodings, encryption?: { hashKeys: boolean }): AurumDBOrderedCollection<T> {
+        return new AurumDBOrderedCollection<T>(this.openSubDb(name, DataTypeKeyPrefix.orderedCollection, defaultEncoding, isCollectionInternalKey, encryption));
+    }
 
-    constructor(db: LevelUp, config: AurumDBIntegrityConfig) {
-        super(db, config);
-        this.totalObservers = [];
-        this.keyObservers = new Map();
-        this.db.on('batch', (ops: AbstractBatch[]) => {
-            for (const op of ops) {
-                switch (op.type) {
-                    case 'put':
-                        this.onKeyChange(op.key, op.value);
-                        break;
-                    case 'del':
-                        this.onKeyChange(op.key, undefined);
-                        break;
-                    //@ts-ignore
-                    case 'clear':
-                        this.onClear();
-                        break;
-                    default:
-                        throw new Error('unhandled operation');
-                }
-            }
-        });
-        this.db.on('clear', () => {
-            this.onClear();
-        });
+    private openLinkedCollection<T>(name: string, encryption?: { hashKeys: boolean }): AurumDBLinkedCollection<T> {
+        return new AurumDBLinkedCollection<T>(this.openSubDb(name, DataTypeKeyPrefix.linkedCollection, 'json', isCollectionInternalKey, encryption));
+    }
+
+    /**
+     * Creates the sub db of a structure and hooks it up to the change log if there is one. Streamable indexes are not recorded
+     */
+    private openSubDb(
+        name: string,
+        type: DataTypeKeyPrefix,
+        valueEncoding?: Encodings,
+        ignoreKey?: (key: string) => boolean,
+        encryption?: { hashKeys: boolean }
+    ): LevelUp {
+        const down = subdown(this.db, name + type);
+        let db: AbstractLevelDOWN;
+        let storage: AurumDBEncryptedStorage;
+        if (encryption) {
+            if (!this.encryption) {
+                throw new Error(`${name} is encrypted, the database config has no key provider`);
+            }
+            const cipher = new AurumDBCipher(this.encryption.keyProvider, encryption.hashKeys);
+            ({ db, storage } = openEncryptedSubDb(down, this.codecs.resolve(valueEncoding), cipher, isUnencryptedKey));
+            this.encryptedStorages.set(name + type, storage);
+        } else {
+            db = encoding(down, { valueEncoding: this.codecs.resolve(valueEncoding) });
+        }
+        if (this.changeLog && type !== DataTypeKeyPrefix.streamableIndex) {
+            const watched = this.changeLog.watch(this.structurePath + name, type, db, down, ignoreKey, storage);
+            this.changeLogStorages.set(name + type, watched);
+            db = watched;
+        }
+        return levelup(db);
+    }
+}
+
+/**
+ * Maps a value to the secondary keys it should be found under. Returning undefined or an empty array leaves the value out of the secondary index
+ */
+export type SecondaryKeyExtractor<T> = (value: T) => string | string[] | undefined;
+
+interface RangeObserver<T> {
+    range: AurumDBKeyRange;
+    mds: MapDataSource<string, T>;
+}
+
+/**
+ * The data source returned by observeKey, the version data source is updated before the value so both are consistent when the value changes
+ */
+export type VersionedDataSource<T> = DataSource<T> & { version: DataSource<number> };
+
+export interface AurumDBSetOptions {
+    encoding?: Encodings;
+    /**
+     * Milliseconds after which the key expires. Overrides the default TTL of the index, 0 writes a value that never expires
+     */
+    ttl?: number;
+}
+
+export interface AurumDBIndexIteratorOptions extends AbstractIteratorOptions {
+    /**
+     * Yields every structure nested in the index once instead of leaving them out. They are keyed by the prefix of their keys, such as !nameindex!, so they can not collide with entries
+     */
+    includeNested?: boolean;
+}
+
+/**
+ * Value of nested structures when iterating or observing an index with includeNested
+ */
+export type AurumDBNestedStructure =
+    | { type: 'index'; name: string; handle: AurumDBIndex<any> }
+    | { type: 'ordered'; name: string; handle: AurumDBOrderedCollection<any> }
+    | { type: 'linked'; name: string; handle: AurumDBLinkedCollection<any> }
+    | { type: 'streamableIndex'; name: string; handle: AurumDBStreamableIndex<any> };
+
+interface SecondaryIndexObserver<T> {
+    name: string;
+    secondaryKey: string;
+    mds: MapDataSource<string, T>;
+}
+
+export class AurumDBIndex<T> extends AurumDB {
+    private totalObservers: { mds: MapDataSource<string, any>; includeNested: boolean }[];
+    private keyObservers: Map<string, VersionedDataSource<any>[]>;
+    private lock: Promise<any>;
+    private secondaryIndexes: Map<string, SecondaryKeyExtractor<T>>;
+    private validator: Promise<AurumDBValidator<T>>;
+    private secondaryObservers: SecondaryIndexObserver<T>[];
+    private rangeObservers: RangeObserver<T>[];
+    private defaultTtl: Promise<number>;
+    private defaultCodec: Promise<LevelEncoding>;
+    private sweepTimer: NodeJS.Timeout;
+    /**
+     * Expiry time the sweep timer is set for
+     */
+    private sweepAt: number;
+    private closed: boolean;
+
+    constructor(
+        db: LevelUp,
+        config: AurumDBIntegrityConfig,
+        changeLog?: AurumDBChangeLog,
+        structurePath?: string,
+        codecs?: AurumDBCodecRegistry,
+        encryption?: AurumDBEncryptionConfig
+    ) {
+        super(db, config, changeLog, structurePath, codecs, encryption);
+        this.totalObservers = [];
+        this.keyObservers = new Map();
+        this.lock = Promise.resolve();
+        this.secondaryIndexes = new Map();
+        this.secondaryObservers = [];
+        this.rangeObservers = [];
+        this.closed = false;
+        // Keys that expired while the index was not open are swept right away
+        this.readNextExpiry().then(
+            (next) => next !== undefined && this.scheduleSweep(next),
+            () => undefined
+        );
+        this.db.on('batch', (ops: AbstractBatch[]) => {
+            for (const op of ops) {
+                switch (op.type) {
+                    case 'put':
+                        this.onKeyChange(op.key, op.value);
+                        break;
+                    case 'del':
+                        this.onKeyChange(op.key, undefined);
+                        break;
+                    //@ts-ignore
+                    case 'clear':
+                        this.onClear();
+                        break;
+                    default:
+                        throw new Error('unhandled operation');
+                }
+            }
+        });
+        this.db.on('clear', () => {
+            this.onClear();
+        });
 
         this.db.on('put', (k, v) => {
             this.onKeyChange(k, v);
@@ -300,12 +1118,110 @@ export class AurumDBIndex<T> extends AurumDB {
         });
     }
 
-    public iterator(options?: AbstractIteratorOptions): AurumDBIterator<T> {
-        return new AurumDBIterator<T>(this.db.iterator(options));
+    /**
+     * Subleveldown can not seek, which snapshots rely on. Take a snapshot of the root database and open the index through it instead
+     */
+    public snapshot(cancellationToken?: CancellationToken): AurumDBSnapshot {
+        throw new Error('Snapshots can only be taken of the root database');
+    }
+
+    /**
+     * The snapshot is taken once all writes that were started before the iterator was created are written. Version, expiry and secondary index data is skipped, as are expired keys.
+     * With a codec values are read as bytes and only decoded once they turn out to be visible.
+     * Pass values: false or iterate keys to only read keys. Structures nested in the index are left out unless includeNested is set
+     */
+    public iterator(options: AurumDBIndexIteratorOptions & { includeNested: true }): AurumDBIterator<T | AurumDBNestedStructure>;
+    public iterator(options?: AurumDBIndexIteratorOptions): AurumDBIterator<T>;
+    public iterator(options?: AurumDBIndexIteratorOptions): AurumDBIterator<any> {
+        const { includeNested, ...iteratorOptions } = options ?? {};
+        options = iteratorOptions;
+        const pendingWrites = this.lock;
+        let source: AbstractIterator<string, any>;
+        let expired: Set<string>;
+        let codec: LevelEncoding;
+        let ended = false;
+        // Seeking before the first read is applied once the source is opened
+        let seekTarget: string;
+        // Keys of a nested structure are next to each other, only the first of them yields the structure
+        let lastNested: string;
+
+        const nextVisible = (cb: (err: any, key?: string, value?: T | AurumDBNestedStructure) => void): void => {
+            source.next((err, key, value) => {
+                if (!err && key !== undefined && (isHiddenKey(key) || expired.has(key))) {
+                    nextVisible(cb);
+                } else if (!err && key !== undefined && isStructureKey(key)) {
+                    if (!includeNested || getSubDbName(key) === lastNested) {
+                        return nextVisible(cb);
+                    }
+                    lastNested = getSubDbName(key);
+                    this.openNested(lastNested).then((nested) => (nested ? cb(undefined, makeSubDbId(lastNested, ''), nested) : nextVisible(cb)), cb);
+                } else if (!err && key !== undefined && codec && key !== META_KEY && !isStructureKey(key)) {
+                    let decoded: T;
+                    try {
+                        decoded = decodeSnapshotValue(value, codec);
+                    } catch (e) {
+                        return cb(e);
+                    }
+                    cb(undefined, key, decoded);
+                } else {
+                    cb(err, key, value);
+                }
+            });
+        };
+
+        // Keys decide what is visible, so only leaving out the values is passed on to the source
+        return new AurumDBIterator<T | AurumDBNestedStructure>((projection) => {
+            if (projection.values === false) {
+                options = { ...options, values: false };
+            }
+            return {
+                next: (cb: (err: any, key?: string, value?: T | AurumDBNestedStructure) => void) => {
+                    if (source) {
+                        nextVisible(cb);
+                    } else {
+                        pendingWrites
+                            .then(async () => {
+                                expired = await this.readExpiredKeys();
+                                const encoding =
+                                    options?.valueEncoding !== undefined ? this.codecs.resolve(options.valueEncoding) : await this.getDefaultCodec();
+                                if (ended) {
+                                    return cb(undefined);
+                                }
+                                if (typeof encoding === 'object' && options?.values !== false) {
+                                    codec = encoding as LevelEncoding;
+                                    source = this.db.iterator({ ...options, valueEncoding: 'binary' });
+                                } else {
+                                    source = this.db.iterator(options);
+                                }
+                                if (seekTarget !== undefined) {
+                                    source.seek(seekTarget);
+                                }
+                                nextVisible(cb);
+                            })
+                            .catch(cb);
+                    }
+                },
+                end: (cb: (err?: any) => void) => {
+                    ended = true;
+                    if (source) {
+                        source.end(cb);
+                    } else {
+                        cb();
+                    }
+                },
+                seek: (target: string) => {
+                    if (source) {
+                        source.seek(target);
+                    } else {
+                        seekTarget = target;
+                    }
+                },
+            };
+        });
     }
 
     private onClear(): void {
-        for (const mds of this.totalObservers) {
+        for (const { mds } of this.totalObservers) {
             for (const k of mds.keys()) {
                 mds.delete(k);
             }
@@ -313,17 +1229,91 @@ export class AurumDBIndex<T> extends AurumDB {
 
         for (const dss of this.keyObservers.values()) {
             for (const ds of dss) {
+                ds.version.update(0);
                 ds.update(undefined);
             }
         }
+
+        for (const { mds } of [...this.secondaryObservers, ...this.rangeObservers]) {
+            for (const k of mds.keys()) {
+                mds.delete(k);
+            }
+        }
+    }
+
+    /**
+     * Resolves to undefined for keys left behind by a structure that no longer exists
+     */
+    private async openNested(subDbName: string): Promise<AurumDBNestedStructure> {
+        const type = getStructureType(subDbName);
+        if (type === undefined || !(await this.has(makeSubDbId(subDbName, META_KEY)))) {
+            return undefined;
+        }
+        const name = subDbName.substring(0, subDbName.length - type.length);
+        return this.getStructure(name, type);
+    }
+
+    /**
+     * Nested structures are created by writing their metadata
+     */
+    private onNestedChange(k: string, v: any): void {
+        const subDbName = getSubDbName(k);
+        const observers = this.totalObservers.filter((observer) => observer.includeNested);
+        if (!observers.length || k !== makeSubDbId(subDbName, META_KEY) || v === undefined) {
+            return;
+        }
+        this.openNested(subDbName).then((nested) => {
+            if (nested) {
+                for (const { mds } of observers) {
+                    mds.set(makeSubDbId(subDbName, ''), nested);
+                }
+            }
+        });
+    }
+
+    protected unregister(name: string, type: AurumDBStructureType): void {
+        super.unregister(name, type);
+        for (const { mds, includeNested } of this.totalObservers) {
+            if (includeNested) {
+                mds.delete(makeSubDbId(name + type, ''));
+            }
+        }
     }
 
     private onKeyChange(k: string, v: T): void {
-        for (const mds of this.totalObservers) {
-            if (v === undefined) {
-                mds.delete(k);
-            } else {
-                mds.set(k, v);
+        if (isHiddenKey(k)) {
+            if (getSubDbName(k) === DataTypeKeyPrefix.keyVersions) {
+                this.onVersionChange(k.substring(DataTypeKeyPrefix.keyVersions.length + 2), v === undefined ? undefined : Number(v));
+            }
+            return;
+        }
+
+        // Keys of nested structures only reach the observers that include nested structures, the same as when the observers are loaded
+        if (isStructureKey(k)) {
+            this.onNestedChange(k, v);
+        } else {
+            for (const { name, secondaryKey, mds } of this.secondaryObservers) {
+                if (v !== undefined && this.extractSecondaryKeys(name, v).includes(secondaryKey)) {
+                    mds.set(k, v);
+                } else if (mds.has(k)) {
+                    mds.delete(k);
+                }
+            }
+            for (const { range, mds } of this.rangeObservers) {
+                if (isInRange(k, range)) {
+                    if (v === undefined) {
+                        mds.delete(k);
+                    } else {
+                        mds.set(k, v);
+                    }
+                }
+            }
+            for (const { mds } of this.totalObservers) {
+                if (v === undefined) {
+                    mds.delete(k);
+                } else {
+                    mds.set(k, v);
+                }
             }
         }
         if (this.keyObservers.has(k)) {
@@ -337,12 +1327,27 @@ export class AurumDBIndex<T> extends AurumDB {
      * Caution: While this is very useful for reactivity this has a high cost, it has to read the entire index to get started, if your index is huge this may even make your application go out of memory, to be used only with moderate sized indexes.
      * Suggested max size: 5k entries. For larger data sets consider chunking your data with sub indexes
      */
-    public async observeEntireIndex(cancellationToken: CancellationToken, valueEncoding?: Encodings): Promise<MapDataSource<string, T>> {
-        const iter = this.iterator({});
-        const result = new MapDataSource<string, T>();
-        this.totalObservers.push(result);
+    public async observeEntireIndex(
+        cancellationToken: CancellationToken,
+        valueEncoding: Encodings,
+        options: { includeNested: true }
+    ): Promise<MapDataSource<string, T | AurumDBNestedStructure>>;
+    public async observeEntireIndex(
+        cancellationToken: CancellationToken,
+        valueEncoding?: Encodings,
+        options?: { includeNested?: boolean }
+    ): Promise<MapDataSource<string, T>>;
+    public async observeEntireIndex(
+        cancellationToken: CancellationToken,
+        valueEncoding?: Encodings,
+        options?: { includeNested?: boolean }
+    ): Promise<MapDataSource<string, any>> {
+        const iter = this.iterator({ includeNested: options?.includeNested });
+        const observer = { mds: new MapDataSource<string, any>(), includeNested: !!options?.includeNested };
+        const result = observer.mds;
+        this.totalObservers.push(observer);
         cancellationToken.addCancelable(() => {
-            const index = this.totalObservers.indexOf(result);
+            const index = this.totalObservers.indexOf(observer);
             if (index !== -1) {
                 this.totalObservers.splice(index, 1);
             }
@@ -350,13 +1355,236 @@ export class AurumDBIndex<T> extends AurumDB {
 
         while (await iter.next()) {
             const { key, value } = iter.current;
-            result.set(key, value);
+            if (!isHiddenKey(key)) {
+                result.set(key, value);
+            }
         }
         return result;
     }
 
-    public async observeKey(key: string, cancellationToken: CancellationToken, valueEncoding?: Encodings): Promise<DataSource<T>> {
-        const ds = new DataSource<T>();
+    /**
+     * Reads all entries inside a key range, or with a key prefix. The limit is applied after leaving out nested structures and secondary index data
+     */
+    public async query(options: AurumDBQueryOptions): Promise<{ key: string; value: T }[]> {
+        const result = [];
+        if (options.limit === 0) {
+            return result;
+        }
+        const iter = this.iterator({
+            ...toIteratorBounds(options),
+            reverse: options.reverse ?? false,
+            valueEncoding: options.valueEncoding,
+        });
+
+        while (await iter.next()) {
+            const { key, value } = iter.current;
+            if (!isHiddenKey(key) && isInRange(key, options)) {
+                result.push({ key, value });
+                if (result.length === options.limit) {
+                    await iter.end();
+                    break;
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Like observeEntireIndex but only loads and tracks the keys inside the range, making it possible to observe slices of indexes that are too large to observe entirely
+     */
+    public async observeRange(range: AurumDBKeyRange, cancellationToken: CancellationToken): Promise<MapDataSource<string, T>> {
+        const observer = { range, mds: new MapDataSource<string, T>() };
+        this.rangeObservers.push(observer);
+        cancellationToken.addCancelable(() => {
+            const index = this.rangeObservers.indexOf(observer);
+            if (index !== -1) {
+                this.rangeObservers.splice(index, 1);
+            }
+        });
+
+        const iter = this.iterator(toIteratorBounds(range));
+        while (await iter.next()) {
+            const { key, value } = iter.current;
+            if (!isHiddenKey(key) && isInRange(key, range) && !observer.mds.has(key)) {
+                observer.mds.set(key, value);
+            }
+        }
+        return observer.mds;
+    }
+
+    /**
+     * Registers a secondary index under which values can be looked up by something other than their key. The extractor is not persisted and has to be registered every time the index is opened.
+     * The mapping itself is persisted in a hidden sub db and updated in the same batch as every write. Use rebuildSecondaryIndex to populate it for values written before the secondary index existed
+     */
+    public createSecondaryIndex(name: string, extractor: SecondaryKeyExtractor<T>): void {
+        if (this.secondaryIndexes.has(name)) {
+            throw new Error(`Secondary index ${name} already exists`);
+        }
+        this.secondaryIndexes.set(name, extractor);
+    }
+
+    /**
+     * Discards the persisted mapping of a secondary index and rebuilds it from all values in the index
+     */
+    public async rebuildSecondaryIndex(name: string): Promise<void> {
+        const extractor = this.getSecondaryIndex(name);
+        await this.clearHidden(name + DataTypeKeyPrefix.secondaryIndex);
+        await this.clearHidden(name + DataTypeKeyPrefix.secondaryIndexKeys);
+
+        let ops: AbstractBatch[] = [];
+        for await (const { key, value } of this.iterator().asGenerator()) {
+            const secondaryKeys = normalizeSecondaryKeys(extractor(value));
+            for (const secondaryKey of secondaryKeys) {
+                ops.push(makeSecondaryEntryPut(name, secondaryKey, key));
+            }
+            if (secondaryKeys.length) {
+                ops.push(makeSecondaryKeysPut(name, key, secondaryKeys));
+            }
+            if (ops.length >= WRITE_BATCH_SIZE) {
+                await this.db.batch(ops);
+                ops = [];
+            }
+        }
+        if (ops.length) {
+            await this.db.batch(ops);
+        }
+    }
+
+    /**
+     * Returns all entries whose value maps to the given secondary key
+     */
+    public async findBy(name: string, secondaryKey: string): Promise<{ key: string; value: T }[]> {
+        this.getSecondaryIndex(name);
+        const result = [];
+        for (const key of await this.findKeysBy(name, secondaryKey)) {
+            result.push({ key, value: await this.get(key) });
+        }
+        return result;
+    }
+
+    /**
+     * Creates a map datasource of all entries whose value maps to the given secondary key. Entries are added and removed as their values change
+     */
+    public async observeBy(name: string, secondaryKey: string, cancellationToken: CancellationToken): Promise<MapDataSource<string, T>> {
+        this.getSecondaryIndex(name);
+        const observer = { name, secondaryKey, mds: new MapDataSource<string, T>() };
+        this.secondaryObservers.push(observer);
+        cancellationToken.addCancelable(() => {
+            const index = this.secondaryObservers.indexOf(observer);
+            if (index !== -1) {
+                this.secondaryObservers.splice(index, 1);
+            }
+        });
+
+        for (const key of await this.findKeysBy(name, secondaryKey)) {
+            if (!observer.mds.has(key)) {
+                observer.mds.set(key, await this.get(key));
+            }
+        }
+        return observer.mds;
+    }
+
+    private getSecondaryIndex(name: string): SecondaryKeyExtractor<T> {
+        if (!this.secondaryIndexes.has(name)) {
+            throw new Error(`Secondary index ${name} does not exist`);
+        }
+        return this.secondaryIndexes.get(name);
+    }
+
+    private extractSecondaryKeys(name: string, value: T): string[] {
+        return normalizeSecondaryKeys(this.secondaryIndexes.get(name)(value));
+    }
+
+    /**
+     * Keys that expired but were not swept yet are left out, the same as when iterating
+     */
+    private async findKeysBy(name: string, secondaryKey: string): Promise<string[]> {
+        const expired = await this.readExpiredKeys();
+        const keys = [];
+        const iter = new AurumDBIterator<string>(
+            this.db.iterator({
+                gte: makeSubDbId(name + DataTypeKeyPrefix.secondaryIndex, makeSecondaryEntryId(secondaryKey, '')),
+                lt: makeSubDbId(name + DataTypeKeyPrefix.secondaryIndex, `${secondaryKey}\x01`),
+                valueEncoding: 'utf8',
+            })
+        );
+        for await (const { value } of iter.asGenerator()) {
+            if (!expired.has(value)) {
+                keys.push(value);
+            }
+        }
+        return keys;
+    }
+
+    /**
+     * Deletes every key of a sub db the index maintains for itself, in batches. Goes through the index so the keys are found the way encrypted indexes store them,
+     * and deletes them one by one since a clear would be recorded in the change log as a clear of the entire index
+     */
+    private async clearHidden(subDbName: string): Promise<void> {
+        const iter = new AurumDBIterator<any>(this.db.iterator({ gte: makeSubDbId(subDbName, ''), lt: '!' + subDbName + '"', values: false }));
+        let ops: AbstractBatch[] = [];
+        for await (const { key } of iter.asGenerator()) {
+            ops.push({ type: 'del', key });
+            if (ops.length >= WRITE_BATCH_SIZE) {
+                await this.db.batch(ops);
+                ops = [];
+            }
+        }
+        if (ops.length) {
+            await this.db.batch(ops);
+        }
+    }
+
+    /**
+     * Creates the batch operations that move the secondary index entries of a key from its previous value to the new one. Pass undefined as value for deletions
+     */
+    private async makeSecondaryIndexOps(key: string, value: T): Promise<AbstractBatch[]> {
+        const ops: AbstractBatch[] = [];
+        for (const name of this.secondaryIndexes.keys()) {
+            const keysId = makeSubDbId(name + DataTypeKeyPrefix.secondaryIndexKeys, key);
+            let previous: string[] = [];
+            try {
+                previous = await this.db.get(keysId, { valueEncoding: 'json' });
+            } catch (e) {
+                if (!e.notFound) {
+                    throw e;
+                }
+            }
+            const next = value === undefined ? [] : this.extractSecondaryKeys(name, value);
+
+            for (const secondaryKey of previous) {
+                if (!next.includes(secondaryKey)) {
+                    ops.push({ type: 'del', key: makeSubDbId(name + DataTypeKeyPrefix.secondaryIndex, makeSecondaryEntryId(secondaryKey, key)) });
+                }
+            }
+            for (const secondaryKey of next) {
+                if (!previous.includes(secondaryKey)) {
+                    ops.push(makeSecondaryEntryPut(name, secondaryKey, key));
+                }
+            }
+            if (next.length) {
+                ops.push(makeSecondaryKeysPut(name, key, next));
+            } else if (previous.length) {
+                ops.push({ type: 'del', key: keysId });
+            }
+        }
+        return ops;
+    }
+
+    private onVersionChange(k: string, version: number): void {
+        if (this.keyObservers.has(k)) {
+            for (const ds of this.keyObservers.get(k)) {
+                ds.version.update(version ?? 0);
+            }
+        }
+    }
+
+    /**
+     * The returned data source carries a version data source, which allows detecting whether the value changed since it was read, e.g. before calling compareAndSet
+     */
+    public async observeKey(key: string, cancellationToken: CancellationToken, valueEncoding?: Encodings): Promise<VersionedDataSource<T>> {
+        const ds = new DataSource<T>() as VersionedDataSource<T>;
+        ds.version = new DataSource<number>(await this.getVersion(key));
 
         if (await this.has(key)) {
             ds.update(await this.get(key, valueEncoding));
@@ -377,28 +1605,507 @@ export class AurumDBIndex<T> extends AurumDB {
         return ds;
     }
 
-    public get(key: string, overrideEncoding?: Encodings): Promise<T> {
-        return this.db.get(key, {
-            valueEncoding: overrideEncoding,
+    public async get(key: string, overrideEncoding?: Encodings | LevelEncoding): Promise<T> {
+        const [value, expired] = await Promise.all([
+            this.db.get(key, {
+                valueEncoding: this.codecs.resolve(overrideEncoding),
+            }),
+            this.isExpired(key),
+        ]);
+        if (expired) {
+            throw new AurumDBNotFoundError(key);
+        }
+        return value;
+    }
+
+    public async has(key: string): Promise<boolean> {
+        return (await super.has(key)) && !(await this.isExpired(key));
+    }
+
+    /**
+     * Time in milliseconds since the epoch at which the key expires, undefined if the key does not expire
+     */
+    public async getExpiry(key: string): Promise<number> {
+        try {
+            return await this.db.get(makeSubDbId(DataTypeKeyPrefix.expiry, key), { valueEncoding: 'json' });
+        } catch (e) {
+            if (e.notFound) {
+                return undefined;
+            } else {
+                throw e;
+            }
+        }
+    }
+
+    /**
+     * Values written without an explicit ttl expire after this many milliseconds. Passing undefined or 0 removes the default, values already written keep their expiry time
+     */
+    public setDefaultTtl(ttl: number): Promise<void> {
+        return this.withLock(async () => {
+            const metadata: AurumDBStructureMetadata = await this.db.get(META_KEY, { valueEncoding: 'json' });
+            await this.db.put(META_KEY, { ...metadata, defaultTtl: ttl || undefined }, { valueEncoding: 'json' });
+            this.defaultTtl = Promise.resolve(ttl || undefined);
         });
     }
 
-    public set(key: string, value: T, overrideEncoding?: Encodings): Promise<void> {
+    /**
+     * The codec the index was created with, undefined if it uses a leveldb encoding
+     */
+    private getDefaultCodec(): Promise<LevelEncoding> {
+        if (!this.defaultCodec) {
+            this.defaultCodec = this.db.get(META_KEY, { valueEncoding: 'json' }).then(
+                (metadata) => (isLegacyMetadata(metadata) ? undefined : this.codecs.get(metadata.encoding)),
+                () => undefined
+            );
+        }
+        return this.defaultCodec;
+    }
+
+    public getDefaultTtl(): Promise<number> {
+        if (!this.defaultTtl) {
+            this.defaultTtl = this.db.get(META_KEY, { valueEncoding: 'json' }).then(
+                (metadata) => (isLegacyMetadata(metadata) ? undefined : metadata.defaultTtl),
+                () => undefined
+            );
+        }
+        return this.defaultTtl;
+    }
+
+    /**
+     * Every write to a key increments its version. Keys that do not exist have version 0, so deleting a key resets its version and compareAndSet with version 0 only succeeds if the key does not exist yet
+     */
+    public async getVersion(key: string): Promise<number> {
+        try {
+            if (await this.isExpired(key)) {
+                return 0;
+            }
+            return await this.db.get(makeSubDbId(DataTypeKeyPrefix.keyVersions, key), { valueEncoding: 'json' });
+        } catch (e) {
+            if (e.notFound) {
+                return 0;
+            } else {
+                throw e;
+            }
+        }
+    }
+
+    /**
+     * Reads a value together with its version, the value is undefined if the key does not exist
+     */
+    public getWithVersion(key: string, overrideEncoding?: Encodings): Promise<{ value: T; version: number }> {
+        return this.withLock(async () => {
+            const version = await this.getVersion(key);
+            let value: T;
+            try {
+                value = await this.get(key, overrideEncoding);
+            } catch (e) {
+                if (!e.notFound) {
+                    throw e;
+                }
+            }
+            return { value, version };
+        });
+    }
+
+    /**
+     * Accepts either the encoding to write the value with or options that can also set a ttl
+     */
+    public set(key: string, value: T, options?: Encodings | AurumDBSetOptions): Promise<void> {
+        const { encoding, ttl }: AurumDBSetOptions = typeof options === 'object' ? (options as AurumDBSetOptions) : { encoding: options };
         if (this.config.autoDeleteOnSetUndefined && (value === undefined || value === null)) {
-            return this.db.del(key);
+            return this.delete(key);
         } else {
-            return this.db.put(key, value, { valueEncoding: overrideEncoding });
+            return this.withLock(async () => this.db.batch(await this.prepareBatch(key, value, encoding, ttl)));
+        }
+    }
+
+    /**
+     * Only writes the value if the version of the key still matches the expected version, otherwise throws an AurumDBVersionConflictError. Resolves with the new version
+     */
+    public compareAndSet(key: string, expectedVersion: number, value: T, overrideEncoding?: Encodings): Promise<number> {
+        return this.withLock(async () => {
+            const version = await this.getVersion(key);
+            if (version !== expectedVersion) {
+                throw new AurumDBVersionConflictError(key, expectedVersion, version);
+            }
+            await this.db.batch(await this.prepareBatch(key, value, overrideEncoding));
+            return version + 1;
+        });
+    }
+
+    /**
+     * Reads the value, passes it through the updater and writes the result with compareAndSet. If the key was changed in the meantime the update is retried with the new value
+     */
+    public async update(key: string, updater: (value: T) => T | Promise<T>, maxRetries: number = 10, overrideEncoding?: Encodings): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            const { value, version } = await this.getWithVersion(key, overrideEncoding);
+            const newValue = await updater(value);
+            try {
+                await this.compareAndSet(key, version, newValue, overrideEncoding);
+                return newValue;
+            } catch (e) {
+                if (!(e instanceof AurumDBVersionConflictError) || attempt >= maxRetries) {
+                    throw e;
+                }
+            }
         }
     }
 
     public delete(key: string): Promise<void> {
-        return this.db.del(key);
+        return this.withLock(async () => this.db.batch(await this.prepareBatch(key, undefined)));
     }
 
-    public async clear(): Promise<void> {
-        const val = await this.get(META_KEY, 'json');
-        await this.db.clear();
-        await this.set(META_KEY, val, 'json');
+    /**
+     * Creates the batch operations for writing a value including the version, expiry and secondary index updates. Passing undefined as value creates a deletion.
+     * Without a ttl the default TTL of the index applies. Must be called while holding the lock of the index, used by set, delete and AurumDBTransaction
+     */
+    public async prepareBatch(key: string, value: T, overrideEncoding?: Encodings | LevelEncoding, ttl?: number): Promise<AbstractBatch[]> {
+        if (this.config.autoDeleteOnSetUndefined && value === null) {
+            value = undefined;
+        }
+        if (value !== undefined) {
+            await this.assertValid(key, value);
+        }
+        const ops = await this.makeSecondaryIndexOps(key, value);
+        if (value === undefined) {
+            ops.unshift({ type: 'del', key });
+            ops.unshift({ type: 'del', key: makeSubDbId(DataTypeKeyPrefix.keyVersions, key) });
+        } else {
+            ops.unshift({ type: 'put', key, value, valueEncoding: this.codecs.resolve(overrideEncoding) } as AbstractBatch);
+            ops.unshift({
+                type: 'put',
+                key: makeSubDbId(DataTypeKeyPrefix.keyVersions, key),
+                value: (await this.getVersion(key)) + 1,
+                valueEncoding: 'json',
+            } as AbstractBatch);
+        }
+
+        const previousExpiry = await this.getExpiry(key);
+        if (previousExpiry !== undefined) {
+            ops.push({ type: 'del', key: makeSubDbId(DataTypeKeyPrefix.expiry, key) });
+            ops.push({ type: 'del', key: makeSubDbId(DataTypeKeyPrefix.expiryQueue, encodeExpiryTime(previousExpiry) + '!' + key) });
+        }
+        ttl = ttl ?? (await this.getDefaultTtl());
+        if (value !== undefined && ttl) {
+            const expiresAt = Date.now() + ttl;
+            ops.push({ type: 'put', key: makeSubDbId(DataTypeKeyPrefix.expiry, key), value: expiresAt, valueEncoding: 'json' } as AbstractBatch);
+            ops.push({
+                type: 'put',
+                key: makeSubDbId(DataTypeKeyPrefix.expiryQueue, encodeExpiryTime(expiresAt) + '!' + key),
+                value: key,
+                valueEncoding: 'json',
+            } as AbstractBatch);
+            this.scheduleSweep(expiresAt);
+        }
+        return ops;
+    }
+
+    /**
+     * Stops sweeping expired keys of this index and of the indexes nested in it. The database itself is closed through the root AurumDB
+     */
+    public close(): Promise<void> {
+        this.closed = true;
+        clearTimeout(this.sweepTimer);
+        return this.closeHandles();
+    }
+
+    private async isExpired(key: string): Promise<boolean> {
+        const expiresAt = await this.getExpiry(key);
+        return expiresAt !== undefined && expiresAt <= Date.now();
+    }
+
+    /**
+     * Keys that expired but were not swept yet
+     */
+    private async readExpiredKeys(): Promise<Set<string>> {
+        const expired = new Set<string>();
+        const iter = new AurumDBIterator<string>(
+            this.db.iterator({
+                gte: makeSubDbId(DataTypeKeyPrefix.expiryQueue, ''),
+                lt: makeSubDbId(DataTypeKeyPrefix.expiryQueue, encodeExpiryTime(Date.now() + 1)),
+                valueEncoding: 'json',
+            })
+        );
+        for await (const { value } of iter.asGenerator()) {
+            expired.add(value);
+        }
+        return expired;
+    }
+
+    private async readNextExpiry(): Promise<number> {
+        const queuePrefix = makeSubDbId(DataTypeKeyPrefix.expiryQueue, '');
+        const iter = new AurumDBIterator<string>(this.db.iterator({ gte: queuePrefix, lt: '!' + DataTypeKeyPrefix.expiryQueue + '"', values: false }));
+        const entry = await iter.next();
+        if (!entry) {
+            return undefined;
+        }
+        await iter.end();
+        return parseInt(entry.key.substring(queuePrefix.length, queuePrefix.length + EXPIRY_TIME_WIDTH));
+    }
+
+    private scheduleSweep(at: number): void {
+        if (this.closed || (this.sweepAt !== undefined && this.sweepAt <= at)) {
+            return;
+        }
+        clearTimeout(this.sweepTimer);
+        this.sweepAt = at;
+        this.sweepTimer = setTimeout(() => this.sweep(), Math.min(MAX_SWEEP_DELAY, Math.max(0, at - Date.now())));
+        // Pending sweeps should not keep the process alive
+        this.sweepTimer.unref();
+    }
+
+    /**
+     * Deletes expired keys in batches through the same path as delete, so observers and the change log see the deletions
+     */
+    private async sweep(): Promise<void> {
+        this.sweepAt = undefined;
+        this.sweepTimer = undefined;
+        let next: number;
+        try {
+            next = await this.withLock(async () => {
+                const queuePrefix = makeSubDbId(DataTypeKeyPrefix.expiryQueue, '');
+                const iter = new AurumDBIterator<string>(
+                    this.db.iterator({ gte: queuePrefix, lt: '!' + DataTypeKeyPrefix.expiryQueue + '"', limit: WRITE_BATCH_SIZE, valueEncoding: 'json' })
+                );
+                const due: string[] = [];
+                let nextExpiry: number;
+                for await (const { key, value } of iter.asGenerator()) {
+                    const expiresAt = parseInt(key.substring(queuePrefix.length, queuePrefix.length + EXPIRY_TIME_WIDTH));
+                    if (expiresAt > Date.now()) {
+                        nextExpiry = expiresAt;
+                        await iter.end();
+                        break;
+                    }
+                    due.push(value);
+                }
+
+                const ops: AbstractBatch[] = [];
+                for (const key of due) {
+                    ops.push(...(await this.prepareBatch(key, undefined)));
+                }
+                if (ops.length) {
+                    await this.db.batch(ops);
+                }
+                // A full batch may have left more expired keys behind
+                return due.length === WRITE_BATCH_SIZE ? Date.now() : nextExpiry;
+            });
+        } catch (e) {
+            next = Date.now() + SWEEP_RETRY_DELAY;
+        }
+        if (next !== undefined) {
+            this.scheduleSweep(next);
+        }
+    }
+
+    /**
+     * Used by AurumDBTransaction to hold the lock of this index while a commit is prepared and written
+     */
+    public lockForCommit<R>(commit: () => Promise<R>): Promise<R> {
+        return this.withLock(commit);
+    }
+
+    private withLock<R>(operation: () => Promise<R>): Promise<R> {
+        const result = this.lock.then(operation);
+        this.lock = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Used by AurumDBTransaction to notify the observers of this index about a committed batch created by prepareBatch
+     */
+    public onTransactionCommit(ops: AbstractBatch[]): void {
+        this.db.emit('batch', ops);
+    }
+
+    /**
+     * Deletes all values including nested structures and secondary index mappings
+     */
+    public clear(): Promise<void> {
+        return this.withLock(async () => {
+            const val = await this.get(META_KEY, 'json');
+            await this.db.clear();
+            await this.db.put(META_KEY, val, { valueEncoding: 'json' });
+            this.onStructuresCleared();
+        });
+    }
+
+    /**
+     * Every value written through set, compareAndSet, update or a transaction has to pass the validator, otherwise the write is rejected with an AurumDBValidationError.
+     * JSON schemas are stored in the metadata of the index, validator functions have to be set again every time the index is opened. Passing undefined removes the validator
+     */
+    public setValidator(validator: AurumDBValidator<T>): Promise<void> {
+        return this.withLock(async () => {
+            const metadata: AurumDBStructureMetadata = await this.db.get(META_KEY, { valueEncoding: 'json' });
+            const schema = typeof validator === 'function' ? undefined : validator;
+            await this.db.put(META_KEY, { ...metadata, schema }, { valueEncoding: 'json' });
+            this.validator = Promise.resolve(validator);
+        });
+    }
+
+    /**
+     * Checks every stored value against the current validator. Useful after changing the validator to find records written under the old rules
+     */
+    public async validateAll(): Promise<AurumDBInvalidRecord[]> {
+        const validator = await this.getValidator();
+        const invalid: AurumDBInvalidRecord[] = [];
+        if (validator === undefined) {
+            return invalid;
+        }
+        for await (const { key, value } of this.iterator().asGenerator()) {
+            const issue = validate(validator, value);
+            if (issue) {
+                invalid.push({ key, ...issue });
+            }
+        }
+        return invalid;
+    }
+
+    private async assertValid(key: string, value: T): Promise<void> {
+        const validator = await this.getValidator();
+        const issue = validator === undefined ? undefined : validate(validator, value);
+        if (issue) {
+            throw new AurumDBValidationError(key, issue.path, issue.message);
+        }
+    }
+
+    private getValidator(): Promise<AurumDBValidator<T>> {
+        if (!this.validator) {
+            this.validator = this.readSchema();
+        }
+        return this.validator;
+    }
+
+    private async readSchema(): Promise<AurumDBJsonSchema> {
+        const metadata: AurumDBStructureMetadata = await this.db.get(META_KEY, { valueEncoding: 'json' });
+        return metadata.schema;
+    }
+}
+
+/**
+ * Read only view of the structures in a database or index at the time the snapshot was taken, created through AurumDB.snapshot
+ */
+export class AurumDBSnapshot {
+    protected reader: AurumDBSnapshotReader;
+    /**
+     * Prefix of all keys of this structure in the root database
+     */
+    protected keyPrefix: string;
+
+    constructor(reader: AurumDBSnapshotReader, keyPrefix: string = '') {
+        this.reader = reader;
+        this.keyPrefix = keyPrefix;
+    }
+
+    /**
+     * Releases the snapshot, shared by all structures opened through it
+     */
+    public release(): Promise<void> {
+        return this.reader.release();
+    }
+
+    public async hasIndex(name: string): Promise<boolean> {
+        return (await this.reader.get(this.keyPrefix + makeSubDbId(name + DataTypeKeyPrefix.index, META_KEY))) !== undefined;
+    }
+
+    public async hasOrderedCollection(name: string): Promise<boolean> {
+        return (await this.reader.get(this.keyPrefix + makeSubDbId(name + DataTypeKeyPrefix.orderedCollection, META_KEY))) !== undefined;
+    }
+
+    public async getIndex<T>(name: string): Promise<AurumDBSnapshotIndex<T>> {
+        const metadata = await this.readMetadata(name + DataTypeKeyPrefix.index);
+        if (metadata === undefined) {
+            throw new Error(`Index ${name} does not exist`);
+        }
+        return new AurumDBSnapshotIndex<T>(
+            this.reader,
+            this.keyPrefix + makeSubDbId(name + DataTypeKeyPrefix.index, ''),
+            metadata.encoding,
+            metadata.encryption && this.reader.createCipher(metadata.encryption)
+        );
+    }
+
+    public async getOrderedCollection<T>(name: string): Promise<AurumDBSnapshotOrderedCollection<T>> {
+        const metadata = await this.readMetadata(name + DataTypeKeyPrefix.orderedCollection);
+        if (metadata === undefined) {
+            throw new Error(`Ordered collection ${name} does not exist`);
+        }
+        return new AurumDBSnapshotOrderedCollection<T>(
+            this.reader,
+            this.keyPrefix + makeSubDbId(name + DataTypeKeyPrefix.orderedCollection, ''),
+            metadata.encoding,
+            metadata.encryption && this.reader.createCipher(metadata.encryption)
+        );
+    }
+
+    /**
+     * Snapshots can not upgrade legacy metadata in place, legacy structures are read with the default encoding
+     */
+    private async readMetadata(subDbName: string): Promise<{ encoding?: Encodings; encryption?: { hashKeys: boolean } }> {
+        const value = await this.reader.get(this.keyPrefix + makeSubDbId(subDbName, META_KEY));
+        if (value === undefined) {
+            return undefined;
+        }
+        const metadata = decodeSnapshotValue(value, 'json');
+        return isLegacyMetadata(metadata) ? {} : metadata;
+    }
+}
+
+export class AurumDBSnapshotIndex<T> extends AurumDBSnapshot {
+    private defaultEncoding: Encodings;
+    private cipher: AurumDBCipher;
+
+    constructor(reader: AurumDBSnapshotReader, keyPrefix: string, defaultEncoding?: Encodings, cipher?: AurumDBCipher) {
+        super(reader, keyPrefix);
+        this.defaultEncoding = defaultEncoding;
+        this.cipher = cipher;
+    }
+
+    public async get(key: string, overrideEncoding?: Encodings): Promise<T> {
+        const storageKey = this.toStorageKey(key);
+        const value = await this.reader.get(this.keyPrefix + storageKey);
+        if (value === undefined) {
+            throw new Error(`Key not found in database [${key}]`);
+        }
+        return this.reader.decode(this.openEntry(storageKey, value).value, overrideEncoding ?? this.defaultEncoding);
+    }
+
+    public async has(key: string): Promise<boolean> {
+        return (await this.reader.get(this.keyPrefix + this.toStorageKey(key))) !== undefined;
+    }
+
+    /**
+     * Iterates over the values of the index in key order, or in no particular order if the index hashes its keys. Version and secondary index data is skipped
+     */
+    public iterator(valueEncoding?: Encodings): AurumDBIterator<T> {
+        // Every key of the index starts with the prefix, which ends in a '!'. '"' is the character right after it
+        const entries = this.reader.entries(this.keyPrefix, this.keyPrefix.substring(0, this.keyPrefix.length - 1) + '"');
+        return new AurumDBIterator<T>({
+            next: (cb: (err: any, key?: string, value?: T) => void) => {
+                (async () => {
+                    let entry = await entries.next();
+                    let opened = entry.done ? undefined : this.openEntry(entry.value.key.substring(this.keyPrefix.length), entry.value.value);
+                    while (!entry.done && isHiddenKey(opened.key)) {
+                        entry = await entries.next();
+                        opened = entry.done ? undefined : this.openEntry(entry.value.key.substring(this.keyPrefix.length), entry.value.value);
+                    }
+                    if (entry.done) {
+                        return cb(undefined);
+                    }
+                    cb(undefined, opened.key, this.reader.decode(opened.value, valueEncoding ?? this.defaultEncoding));
+                })().catch(cb);
+            },
+            end: (cb: (err?: any) => void) => {
+                entries.return(undefined).then(() => cb(), cb);
+            },
+        });
+    }
+
+    private toStorageKey(key: string): string {
+        return this.cipher && !isUnencryptedKey(key) ? this.cipher.toStorageKey(key) : key;
+    }
+
+    private openEntry(storageKey: string, value: Buffer): { key: string; value: Buffer } {
+        return this.cipher && !isUnencryptedKey(storageKey) ? this.cipher.openEntry(storageKey, value) : { key: storageKey, value };
     }
 }
 
@@ -407,4 +2114,132 @@ enum DataTypeKeyPrefix {
     streamableIndex = 'streamableIndex',
     orderedCollection = 'ordered',
     linkedCollection = 'linked',
+    secondaryIndex = 'secondaryIndex',
+    secondaryIndexKeys = 'secondaryIndexKeys',
+    keyVersions = 'keyVersions',
+    expiry = 'expiry',
+    expiryQueue = 'expiryQueue',
+}
+
+/**
+ * Amount of values written per batch when rebuilding secondary indexes or migrating
+ */
+const WRITE_BATCH_SIZE = 1000;
+
+/**
+ * Leveldb sorts keys lexicographically, padding expiry times to a fixed width orders the expiry queue by time
+ */
+const EXPIRY_TIME_WIDTH = 16;
+/**
+ * Longest delay setTimeout supports, sweeps further in the future are scheduled in steps
+ */
+const MAX_SWEEP_DELAY = 2 ** 31 - 1;
+/**
+ * Delay before a sweep that failed is attempted again
+ */
+const SWEEP_RETRY_DELAY = 1000;
+
+function encodeExpiryTime(time: number): string {
+    return time.toString().padStart(EXPIRY_TIME_WIDTH, '0');
+}
+
+async function closeHandle(opening: Promise<any>): Promise<void> {
+    const handle = await opening.catch((): any => undefined);
+    if (handle instanceof AurumDBIndex) {
+        await handle.close();
+    }
+}
+
+/**
+ * Checks whether a key belongs to the keyspace of a structure nested inside an index rather than being a value of the index itself
+ */
+function isStructureKey(key: string): boolean {
+    const name = getSubDbName(key);
+    return name !== undefined && Object.values(DataTypeKeyPrefix).some((suffix) => name.endsWith(suffix));
+}
+
+/**
+ * Keys encrypted structures store as they are, along with their values. Nested structures take care of their own encryption, the data an index maintains for itself is encrypted
+ */
+function isUnencryptedKey(key: string): boolean {
+    return key === META_KEY || key === LENGTH_KEY || (isStructureKey(key) && !isHiddenKey(key));
+}
+
+/**
+ * Keys the collections maintain for themselves, such as the length and the pointers of linked collections. They are not recorded in the change log
+ */
+function isCollectionInternalKey(key: string): boolean {
+    return key === LENGTH_KEY || key === HEAD_KEY || key === TAIL_KEY || key === NEXT_ID_KEY || isHiddenKey(key);
+}
+
+/**
+ * Checks whether a key belongs to data an index maintains for itself, such as its secondary index mappings, key versions and expiry times
+ */
+function isHiddenKey(key: string): boolean {
+    const name = getSubDbName(key);
+    return (
+        name !== undefined &&
+        (name === DataTypeKeyPrefix.keyVersions ||
+            name === DataTypeKeyPrefix.expiry ||
+            name === DataTypeKeyPrefix.expiryQueue ||
+            name.endsWith(DataTypeKeyPrefix.secondaryIndex) ||
+            name.endsWith(DataTypeKeyPrefix.secondaryIndexKeys))
+    );
+}
+
+/**
+ * Inverse of makeSubDbId, returns undefined for keys that are not inside a sub db
+ */
+function getStructureType(subDbName: string): AurumDBStructureType {
+    for (const type of [DataTypeKeyPrefix.index, DataTypeKeyPrefix.streamableIndex, DataTypeKeyPrefix.orderedCollection, DataTypeKeyPrefix.linkedCollection]) {
+        if (subDbName.endsWith(type)) {
+            return type as string as AurumDBStructureType;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Collections keep their length next to the metadata record
+ */
+function makeCollectionCreation(subDbName: string, metadata: AurumDBStructureMetadata): AbstractBatch[] {
+    return [
+        { type: 'put', key: makeSubDbId(subDbName, META_KEY), value: metadata, valueEncoding: 'json' } as AbstractBatch,
+        { type: 'put', key: makeSubDbId(subDbName, LENGTH_KEY), value: 0, valueEncoding: 'json' } as AbstractBatch,
+    ];
+}
+
+function getSubDbName(key: string): string {
+    if (!key.startsWith('!')) {
+        return undefined;
+    }
+    const end = key.indexOf('!', 1);
+    return end === -1 ? undefined : key.substring(1, end);
+}
+
+function normalizeSecondaryKeys(secondaryKeys: string | string[] | undefined): string[] {
+    if (secondaryKeys === undefined || secondaryKeys === null) {
+        return [];
+    }
+    return Array.isArray(secondaryKeys) ? secondaryKeys : [secondaryKeys];
+}
+
+/**
+ * Secondary index entries are keyed by secondary key first so that all primary keys of one secondary key form a contiguous range
+ */
+function makeSecondaryEntryId(secondaryKey: string, key: string): string {
+    return `${secondaryKey}\x00${key}`;
+}
+
+function makeSecondaryEntryPut(name: string, secondaryKey: string, key: string): AbstractBatch {
+    return {
+        type: 'put',
+        key: makeSubDbId(name + DataTypeKeyPrefix.secondaryIndex, makeSecondaryEntryId(secondaryKey, key)),
+        value: key,
+        valueEncoding: 'utf8',
+    } as AbstractBatch;
+}
+
+function makeSecondaryKeysPut(name: string, key: string, secondaryKeys: string[]): AbstractBatch {
+    return { type: 'put', key: makeSubDbId(name + DataTypeKeyPrefix.secondaryIndexKeys, key), value: secondaryKeys, valueEncoding: 'json' } as AbstractBatch;
 }
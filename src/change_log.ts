@@ -0,0 +1,408 @@
+import { AbstractBatch, AbstractIterator, AbstractIteratorOptions, AbstractLevelDOWN, ErrorCallback } from 'abstract-leveldown';
+import { ArrayDataSource, CancellationToken } from 'aurumjs';
+import { LevelUp } from 'levelup';
+import * as sub from 'subleveldown';
+import { AurumDBCodecRegistry, LevelEncoding } from './codecs/registry';
+import { META_KEY } from './constants';
+import { AurumDBEncryptedStorage } from './encryption';
+import { AurumDBIterator } from './iterator';
+import { decodeEntryValue, encodeEntryValue } from './ndjson';
+
+/**
+ * Leveldb sorts keys lexicographically, padding the sequence numbers to a fixed width makes that order match the numeric order
+ */
+const SEQ_KEY_WIDTH = 16;
+const CHANGE_LOG_SUB_DB = 'changeLog';
+/**
+ * Retention is enforced after every this many recorded changes instead of after every single one
+ */
+const TRIM_INTERVAL = 100;
+
+export interface AurumDBChangeLogConfig {
+    /**
+     * Oldest entries are removed once the log holds more than this many entries
+     */
+    maxEntries?: number;
+    /**
+     * Entries older than this many milliseconds are removed
+     */
+    maxAge?: number;
+}
+
+/**
+ * A single recorded change. Keys are the keys inside the structure, the structure is identified by its name, nested structures are separated by a slash
+ */
+export interface AurumDBChange {
+    seq: number;
+    timestamp: number;
+    structure: string;
+    structureType: string;
+    type: 'put' | 'del' | 'clear';
+    key?: string;
+    value?: any;
+}
+
+/**
+ * A change before it is appended, the log assigns the sequence number and timestamp. The encoding is the one the value is written with
+ */
+export type AurumDBChangeDraft = Omit<AurumDBChange, 'seq' | 'timestamp'> & { encoding?: LevelEncoding };
+
+/**
+ * A change as it is persisted. Values JSON can not represent are stored the same way an export writes them: buffers in base64, values of registered codecs encoded by the codec
+ */
+type StoredChange = Omit<AurumDBChange, 'value'> & { value?: any; base64?: string; encoded?: string; encoding?: string };
+
+function encodeSeq(seq: number): string {
+    return seq.toString().padStart(SEQ_KEY_WIDTH, '0');
+}
+
+/**
+ * Records every change made through the structures it watches in a hidden sub db of the root database, each with a sequence number that keeps increasing across restarts.
+ * The entries are written in the same batch as the data they describe
+ */
+export class AurumDBChangeLog {
+    private db: LevelUp;
+    private keyPrefix: string;
+    private config: AurumDBChangeLogConfig;
+    private lock: Promise<any>;
+    /**
+     * Settles once every change appended so far was written or failed and the observers of the written ones were notified
+     */
+    private published: Promise<void>;
+    private lastSeq: number;
+    private sinceTrim: number;
+    private observers: ((change: AurumDBChange) => void)[];
+    /**
+     * Decodes the values of structures using a registered codec, should be the registry of the database the log is used by
+     */
+    private codecs: AurumDBCodecRegistry;
+
+    constructor(rootDb: LevelUp, config: AurumDBChangeLogConfig = {}, codecs: AurumDBCodecRegistry = new AurumDBCodecRegistry()) {
+        this.db = sub(rootDb, CHANGE_LOG_SUB_DB, { valueEncoding: 'json' });
+        this.keyPrefix = '!' + CHANGE_LOG_SUB_DB + '!';
+        this.config = config;
+        this.codecs = codecs;
+        this.lock = Promise.resolve();
+        this.published = Promise.resolve();
+        this.lastSeq = 0;
+        this.sinceTrim = 0;
+        this.observers = [];
+    }
+
+    /**
+     * Restores the sequence number from the persisted log, must be awaited before any change is recorded
+     */
+    public async initialize(): Promise<void> {
+        const iter = new AurumDBIterator<AurumDBChange>(this.db.iterator({ reverse: true, limit: 1 }));
+        if (await iter.next()) {
+            this.lastSeq = iter.current.value.seq;
+            await iter.end();
+        }
+        await this.trim();
+    }
+
+    /**
+     * Sequence number of the most recent change, 0 if nothing was recorded yet
+     */
+    public getLastSeq(): number {
+        return this.lastSeq;
+    }
+
+    /**
+     * Starts recording the changes made through a structure by putting a layer on top of its encoding, the returned layer has to be wrapped in levelup and used in place of the encoding.
+     * down is the subleveldown layer of the structure. Meta data of the structure and keys for which ignoreKey returns true are not recorded.
+     * Changes of encrypted structures are recorded without values, and with the keys as stored if the structure hashes its keys
+     */
+    public watch(
+        structure: string,
+        structureType: string,
+        encoded: AbstractLevelDOWN,
+        down: any,
+        ignoreKey?: (key: string) => boolean,
+        encrypted?: AurumDBEncryptedStorage
+    ): AurumDBChangeLogStorage {
+        return new AurumDBChangeLogStorage(this, encoded, down, structure, structureType, ignoreKey, encrypted);
+    }
+
+    /**
+     * Appends changes along with the data they describe. write receives the ops of the log entries and has to write them in the same batch as the data.
+     * Observers are notified in the order of the sequence numbers once the batch is written. Retention runs after the write when it is due, its errors are thrown as well
+     */
+    public async append(changes: AurumDBChangeDraft[], write: (ops: AbstractBatch[]) => Promise<void>): Promise<void> {
+        const timestamp = Date.now();
+        const entries: AurumDBChange[] = changes.map(({ encoding, ...change }) => ({ seq: ++this.lastSeq, timestamp, ...change }));
+        const written = write(
+            entries.map(
+                (entry, i) =>
+                    ({
+                        type: 'put',
+                        key: this.keyPrefix + encodeSeq(entry.seq),
+                        value: JSON.stringify(this.toStored(entry, changes[i].encoding)),
+                    } as AbstractBatch)
+            )
+        );
+        this.published = this.published
+            .then(() => written)
+            .then(() => this.notify(entries))
+            .catch(() => undefined);
+        await written;
+        this.sinceTrim += entries.length;
+        if (this.sinceTrim >= TRIM_INTERVAL && (this.config.maxEntries !== undefined || this.config.maxAge !== undefined)) {
+            await this.trim();
+        }
+    }
+
+    /**
+     * Iterates over all changes with a sequence number higher than seq, in order. Changes that are still being written when this is called are included
+     */
+    public async *changesSince(seq: number): AsyncGenerator<AurumDBChange> {
+        await this.published;
+        const iter = new AurumDBIterator<StoredChange>(this.db.iterator({ gt: encodeSeq(seq) }));
+        for await (const { value } of iter.asGenerator()) {
+            yield this.fromStored(value);
+        }
+    }
+
+    /**
+     * Contains all changes with a sequence number higher than fromSeq and keeps appending new changes until the token is cancelled.
+     * Caution: The array data source grows with every change, cancel the token once the changes are consumed
+     */
+    public async observeChanges(fromSeq: number, cancellationToken: CancellationToken): Promise<ArrayDataSource<AurumDBChange>> {
+        const result = new ArrayDataSource<AurumDBChange>();
+        let lastDelivered = fromSeq;
+        let pending: AurumDBChange[] = [];
+        const deliver = (change: AurumDBChange) => {
+            if (change.seq > lastDelivered) {
+                lastDelivered = change.seq;
+                result.push(change);
+            }
+        };
+
+        // Registered before reading the persisted log so no change can fall between the two
+        const observer = (change: AurumDBChange) => (pending ? pending.push(change) : deliver(change));
+        this.observers.push(observer);
+        cancellationToken.addCancelable(() => {
+            const index = this.observers.indexOf(observer);
+            if (index !== -1) {
+                this.observers.splice(index, 1);
+            }
+        });
+
+        for await (const change of this.changesSince(fromSeq)) {
+            deliver(change);
+        }
+        for (const change of pending) {
+            deliver(change);
+        }
+        pending = undefined;
+
+        return result;
+    }
+
+    /**
+     * Removes entries according to the retention config. Called automatically every few recorded changes
+     */
+    public trim(): Promise<void> {
+        return this.withLock(async () => {
+            this.sinceTrim = 0;
+            if (this.config.maxEntries !== undefined && this.lastSeq > this.config.maxEntries) {
+                await this.db.clear({ lte: encodeSeq(this.lastSeq - this.config.maxEntries) });
+            }
+            if (this.config.maxAge !== undefined) {
+                const cutoff = Date.now() - this.config.maxAge;
+                const ops: AbstractBatch[] = [];
+                const iter = new AurumDBIterator<AurumDBChange>(this.db.iterator());
+                while (await iter.next()) {
+                    const { key, value } = iter.current;
+                    if (value.timestamp >= cutoff) {
+                        await iter.end();
+                        break;
+                    }
+                    ops.push({ type: 'del', key });
+                }
+                await this.db.batch(ops);
+            }
+        });
+    }
+
+    private toStored(change: AurumDBChange, encoding: LevelEncoding): StoredChange {
+        if (change.value === undefined) {
+            return change;
+        }
+        const { value, ...stored } = change;
+        const codec = encoding && this.codecs.has(encoding.type) ? encoding : undefined;
+        return { ...stored, ...encodeEntryValue(value, codec), encoding: codec?.type };
+    }
+
+    private fromStored(stored: StoredChange): AurumDBChange {
+        const { value, base64, encoded, encoding, ...change } = stored;
+        if (value === undefined && base64 === undefined && encoded === undefined) {
+            return change;
+        }
+        return { ...change, value: decodeEntryValue({ value, base64, encoded }, encoding === undefined ? undefined : this.codecs.get(encoding)) };
+    }
+
+    private notify(entries: AurumDBChange[]): void {
+        for (const change of entries) {
+            for (const observer of this.observers) {
+                observer(change);
+            }
+        }
+    }
+
+    private withLock<R>(operation: () => Promise<R>): Promise<R> {
+        const result = this.lock.then(operation);
+        this.lock = result.catch(() => undefined);
+        return result;
+    }
+}
+
+/**
+ * The abstract-leveldown layer of a structure watched by the change log, sitting on top of its encoding. Writes that change something the log records bypass the layers below
+ * and are written to the root database in one batch with their log entries, the same way a transaction writes
+ */
+export class AurumDBChangeLogStorage extends AbstractLevelDOWN {
+    public readonly type = 'aurum-db-change-log';
+    /**
+     * Named db like the inner database of the other layers, so subleveldown finds the prefix of this sub db when a nested structure is created on top of it
+     */
+    private db: any;
+    private down: any;
+    private changeLog: AurumDBChangeLog;
+    private structure: string;
+    private structureType: string;
+    private ignoreKey: (key: string) => boolean;
+    private encrypted: AurumDBEncryptedStorage;
+
+    constructor(
+        changeLog: AurumDBChangeLog,
+        db: AbstractLevelDOWN,
+        down: any,
+        structure: string,
+        structureType: string,
+        ignoreKey?: (key: string) => boolean,
+        encrypted?: AurumDBEncryptedStorage
+    ) {
+        super(undefined);
+        this.changeLog = changeLog;
+        this.db = db;
+        this.down = down;
+        this.structure = structure;
+        this.structureType = structureType;
+        this.ignoreKey = ignoreKey;
+        this.encrypted = encrypted;
+    }
+
+    /**
+     * Returns the changes a batch of the structure makes that are recorded, used by transactions to append them to their batch. options are those of the batch, the same as for writes
+     */
+    public describeChanges(ops: AbstractBatch[], options?: any): AurumDBChangeDraft[] {
+        const changes: AurumDBChangeDraft[] = [];
+        for (const op of ops) {
+            const key = String(op.key);
+            if (key === META_KEY || this.ignoreKey?.(key)) {
+                continue;
+            }
+            const logged = op.type === 'put' && !this.encrypted ? op : undefined;
+            changes.push({
+                structure: this.structure,
+                structureType: this.structureType,
+                type: op.type,
+                key: this.encrypted ? this.encrypted.toStorageKey(key) : key,
+                value: logged?.value,
+                // The encoding the layer below writes the value with, the one of the op, of the batch or the default of the structure
+                encoding: logged && this.db.codec._valueEncoding(options, logged),
+            });
+        }
+        return changes;
+    }
+
+    protected _open(options: any, callback: ErrorCallback): void {
+        this.db.open(options, callback);
+    }
+
+    protected _close(callback: ErrorCallback): void {
+        this.db.close(callback);
+    }
+
+    protected _get(key: any, options: any, callback: (err: any, value?: any) => void): void {
+        this.db.get(key, options, callback);
+    }
+
+    protected _put(key: any, value: any, options: any, callback: ErrorCallback): void {
+        this.write([{ type: 'put', key, value }], options, callback, () => this.db.put(key, value, options, callback));
+    }
+
+    protected _del(key: any, options: any, callback: ErrorCallback): void {
+        this.write([{ type: 'del', key }], options, callback, () => this.db.del(key, options, callback));
+    }
+
+    protected _batch(ops: AbstractBatch[], options: any, callback: ErrorCallback): void {
+        this.write(ops, options, callback, () => this.db.batch(ops, options, callback));
+    }
+
+    /**
+     * Deletes the keys in the range one by one in a single batch, so the clear and its log entry are written together
+     */
+    protected _clear(options: any, callback: ErrorCallback): void {
+        const iterator = this.db.iterator({ ...options, keys: true, values: false });
+        const ops: AbstractBatch[] = [];
+        const next = () =>
+            iterator.next((err, key) => {
+                if (err) {
+                    return iterator.end(() => callback(err));
+                }
+                if (key === undefined) {
+                    return iterator.end((endErr) =>
+                        endErr
+                            ? callback(endErr)
+                            : this.writeToRoot(ops, {}, [{ structure: this.structure, structureType: this.structureType, type: 'clear' }], callback)
+                    );
+                }
+                ops.push({ type: 'del', key });
+                next();
+            });
+        next();
+    }
+
+    protected _iterator(options: AbstractIteratorOptions): AbstractIterator<any, any> {
+        return this.db.iterator(options);
+    }
+
+    /**
+     * Writes that change nothing the log records go through the layers below as they are
+     */
+    private write(ops: AbstractBatch[], options: any, callback: ErrorCallback, passThrough: () => void): void {
+        const changes = this.describeChanges(ops, options);
+        if (!changes.length) {
+            return passThrough();
+        }
+        this.writeToRoot(ops, options, changes, callback);
+    }
+
+    private writeToRoot(ops: AbstractBatch[], options: any, changes: AurumDBChangeDraft[], callback: ErrorCallback): void {
+        const write = (done: ErrorCallback) => {
+            let data: AbstractBatch[];
+            try {
+                data = this.encrypted
+                    ? this.encrypted.sealBatch(ops.map((op) => ({ valueEncoding: options.valueEncoding, ...op })))
+                    : this.db.codec.encodeBatch(ops, options);
+            } catch (e) {
+                return done(e);
+            }
+            const batch = data.map((op) => ({ ...op, key: this.down.prefix + op.key }));
+            this.changeLog
+                .append(
+                    changes,
+                    (logOps) =>
+                        new Promise<void>((resolve, reject) => this.down.leveldown.batch(batch.concat(logOps), {}, (err) => (err ? reject(err) : resolve())))
+                )
+                .then(() => done(undefined), done);
+        };
+        if (this.encrypted) {
+            this.encrypted.write(write, callback);
+        } else {
+            write(callback);
+        }
+    }
+}
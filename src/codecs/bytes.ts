@@ -0,0 +1,75 @@
+/**
+ * Growable buffer the binary codecs encode into
+ */
+export class ByteWriter {
+    private buffer: Buffer;
+    private length: number;
+
+    constructor() {
+        this.buffer = Buffer.allocUnsafe(64);
+        this.length = 0;
+    }
+
+    public writeUInt8(value: number): void {
+        this.reserve(1).writeUInt8(value, this.length - 1);
+    }
+
+    public writeUInt16(value: number): void {
+        this.reserve(2).writeUInt16BE(value, this.length - 2);
+    }
+
+    public writeUInt32(value: number): void {
+        this.reserve(4).writeUInt32BE(value, this.length - 4);
+    }
+
+    public writeBigUInt64(value: bigint): void {
+        this.reserve(8).writeBigUInt64BE(value, this.length - 8);
+    }
+
+    public writeBigInt64(value: bigint): void {
+        this.reserve(8).writeBigInt64BE(value, this.length - 8);
+    }
+
+    public writeFloat64(value: number): void {
+        this.reserve(8).writeDoubleBE(value, this.length - 8);
+    }
+
+    public writeBytes(bytes: Uint8Array): void {
+        this.reserve(bytes.length).set(bytes, this.length - bytes.length);
+    }
+
+    public toBuffer(): Buffer {
+        return this.buffer.slice(0, this.length);
+    }
+
+    private reserve(size: number): Buffer {
+        if (this.length + size > this.buffer.length) {
+            const grown = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + size));
+            this.buffer.copy(grown, 0, 0, this.length);
+            this.buffer = grown;
+        }
+        this.length += size;
+        return this.buffer;
+    }
+}
+
+export interface ByteReader {
+    data: Buffer;
+    offset: number;
+}
+
+export function readBytes(reader: ByteReader, length: number): Buffer {
+    if (reader.offset + length > reader.data.length) {
+        throw new Error('Unexpected end of data');
+    }
+    const bytes = reader.data.slice(reader.offset, reader.offset + length);
+    reader.offset += length;
+    return bytes;
+}
+
+/**
+ * Integers that fit into a javascript number are returned as number, larger ones as bigint
+ */
+export function toNumberIfSafe(value: number | bigint): number | bigint {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(value) : value;
+}
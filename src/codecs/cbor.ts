@@ -0,0 +1,278 @@
+import { ByteReader, ByteWriter, readBytes, toNumberIfSafe } from './bytes';
+import { AurumDBCodec } from './registry';
+
+const enum MajorType {
+    unsigned = 0,
+    negative = 1,
+    bytes = 2,
+    text = 3,
+    array = 4,
+    map = 5,
+    tag = 6,
+    simple = 7,
+}
+
+const enum Tag {
+    dateString = 0,
+    epochTime = 1,
+    positiveBigNum = 2,
+    negativeBigNum = 3,
+}
+
+/**
+ * Additional info value marking items of indefinite length
+ */
+const INDEFINITE = 31;
+const BREAK = 0xff;
+
+/**
+ * CBOR (RFC 8949). Dates are written as epoch time tags, bigints outside of 64 bits as bignum tags, Sets as arrays and Maps as maps.
+ * Maps with only string keys are read back as plain objects, other maps as Map instances
+ */
+export const cborCodec: AurumDBCodec = {
+    type: 'binary',
+    encode(value: any): Buffer {
+        const writer = new ByteWriter();
+        encodeValue(writer, value);
+        return writer.toBuffer();
+    },
+    decode(data: Buffer): any {
+        const reader = { data, offset: 0 };
+        const value = decodeValue(reader);
+        if (reader.offset !== data.length) {
+            throw new Error('Unexpected data after CBOR value');
+        }
+        return value;
+    },
+};
+
+function encodeValue(writer: ByteWriter, value: any): void {
+    if (value === false) {
+        writer.writeUInt8(0xf4);
+    } else if (value === true) {
+        writer.writeUInt8(0xf5);
+    } else if (value === null) {
+        writer.writeUInt8(0xf6);
+    } else if (value === undefined) {
+        writer.writeUInt8(0xf7);
+    } else if (typeof value === 'number') {
+        if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+            encodeHead(writer, value < 0 ? MajorType.negative : MajorType.unsigned, value < 0 ? -1 - value : value);
+        } else {
+            writer.writeUInt8(0xfb);
+            writer.writeFloat64(value);
+        }
+    } else if (typeof value === 'bigint') {
+        encodeBigInt(writer, value);
+    } else if (typeof value === 'string') {
+        const bytes = Buffer.from(value, 'utf8');
+        encodeHead(writer, MajorType.text, bytes.length);
+        writer.writeBytes(bytes);
+    } else if (value instanceof Uint8Array) {
+        encodeHead(writer, MajorType.bytes, value.length);
+        writer.writeBytes(value);
+    } else if (value instanceof Date) {
+        encodeHead(writer, MajorType.tag, Tag.epochTime);
+        encodeValue(writer, value.getTime() / 1000);
+    } else if (Array.isArray(value) || value instanceof Set) {
+        const items = Array.from(value);
+        encodeHead(writer, MajorType.array, items.length);
+        for (const item of items) {
+            encodeValue(writer, item);
+        }
+    } else if (value instanceof Map) {
+        encodeHead(writer, MajorType.map, value.size);
+        for (const [key, item] of value) {
+            encodeValue(writer, key);
+            encodeValue(writer, item);
+        }
+    } else if (typeof value === 'object') {
+        const keys = Object.keys(value).filter((key) => value[key] !== undefined);
+        encodeHead(writer, MajorType.map, keys.length);
+        for (const key of keys) {
+            encodeValue(writer, key);
+            encodeValue(writer, value[key]);
+        }
+    } else {
+        throw new Error(`Cannot encode ${typeof value} as CBOR`);
+    }
+}
+
+/**
+ * Writes the major type together with the argument in the shortest form
+ */
+function encodeHead(writer: ByteWriter, major: MajorType, argument: number | bigint): void {
+    const type = major << 5;
+    if (argument < 24) {
+        writer.writeUInt8(type | Number(argument));
+    } else if (argument <= 0xff) {
+        writer.writeUInt8(type | 24);
+        writer.writeUInt8(Number(argument));
+    } else if (argument <= 0xffff) {
+        writer.writeUInt8(type | 25);
+        writer.writeUInt16(Number(argument));
+    } else if (argument <= 0xffffffff) {
+        writer.writeUInt8(type | 26);
+        writer.writeUInt32(Number(argument));
+    } else {
+        writer.writeUInt8(type | 27);
+        writer.writeBigUInt64(BigInt(argument));
+    }
+}
+
+function encodeBigInt(writer: ByteWriter, value: bigint): void {
+    const negative = value < BigInt(0);
+    const magnitude = negative ? -BigInt(1) - value : value;
+    if (magnitude < BigInt(2) ** BigInt(64)) {
+        encodeHead(writer, negative ? MajorType.negative : MajorType.unsigned, magnitude);
+    } else {
+        const hex = magnitude.toString(16);
+        encodeHead(writer, MajorType.tag, negative ? Tag.negativeBigNum : Tag.positiveBigNum);
+        encodeValue(writer, Buffer.from(hex.length % 2 ? '0' + hex : hex, 'hex'));
+    }
+}
+
+function decodeValue(reader: ByteReader): any {
+    const initial = readBytes(reader, 1)[0];
+    const major: MajorType = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === MajorType.simple) {
+        return decodeSimple(reader, info);
+    }
+    if (info === INDEFINITE) {
+        return decodeIndefinite(reader, major);
+    }
+
+    const argument = readArgument(reader, info);
+    switch (major) {
+        case MajorType.unsigned:
+            return toNumberIfSafe(argument);
+        case MajorType.negative:
+            return toNumberIfSafe(-BigInt(1) - BigInt(argument));
+        case MajorType.bytes:
+            return Buffer.from(readBytes(reader, Number(argument)));
+        case MajorType.text:
+            return readBytes(reader, Number(argument)).toString('utf8');
+        case MajorType.array: {
+            const items = [];
+            for (let i = 0; i < argument; i++) {
+                items.push(decodeValue(reader));
+            }
+            return items;
+        }
+        case MajorType.map: {
+            const entries: [any, any][] = [];
+            for (let i = 0; i < argument; i++) {
+                entries.push([decodeValue(reader), decodeValue(reader)]);
+            }
+            return toMap(entries);
+        }
+        case MajorType.tag:
+            return decodeTag(Number(argument), decodeValue(reader));
+    }
+}
+
+function readArgument(reader: ByteReader, info: number): number | bigint {
+    if (info < 24) {
+        return info;
+    }
+    switch (info) {
+        case 24:
+            return readBytes(reader, 1).readUInt8(0);
+        case 25:
+            return readBytes(reader, 2).readUInt16BE(0);
+        case 26:
+            return readBytes(reader, 4).readUInt32BE(0);
+        case 27:
+            return toNumberIfSafe(readBytes(reader, 8).readBigUInt64BE(0));
+        default:
+            throw new Error(`Invalid CBOR additional info ${info}`);
+    }
+}
+
+function decodeSimple(reader: ByteReader, info: number): any {
+    switch (info) {
+        case 20:
+            return false;
+        case 21:
+            return true;
+        case 22:
+            return null;
+        case 23:
+            return undefined;
+        case 24:
+            // Unassigned simple values have no representation in javascript
+            readBytes(reader, 1);
+            return undefined;
+        case 25:
+            return decodeHalfFloat(readBytes(reader, 2).readUInt16BE(0));
+        case 26:
+            return readBytes(reader, 4).readFloatBE(0);
+        case 27:
+            return readBytes(reader, 8).readDoubleBE(0);
+        default:
+            if (info < 20) {
+                return undefined;
+            }
+            throw new Error(`Invalid CBOR simple value ${info}`);
+    }
+}
+
+function decodeIndefinite(reader: ByteReader, major: MajorType): any {
+    const items = [];
+    while (reader.data[reader.offset] !== BREAK) {
+        items.push(decodeValue(reader));
+    }
+    readBytes(reader, 1);
+
+    switch (major) {
+        case MajorType.bytes:
+            return Buffer.concat(items);
+        case MajorType.text:
+            return items.join('');
+        case MajorType.array:
+            return items;
+        case MajorType.map: {
+            const entries: [any, any][] = [];
+            for (let i = 0; i < items.length; i += 2) {
+                entries.push([items[i], items[i + 1]]);
+            }
+            return toMap(entries);
+        }
+        default:
+            throw new Error(`CBOR major type ${major} can not have an indefinite length`);
+    }
+}
+
+function decodeTag(tag: number, value: any): any {
+    switch (tag) {
+        case Tag.dateString:
+            return new Date(value);
+        case Tag.epochTime:
+            return new Date(value * 1000);
+        case Tag.positiveBigNum:
+            return BigInt('0x' + (value.toString('hex') || '0'));
+        case Tag.negativeBigNum:
+            return -BigInt(1) - BigInt('0x' + (value.toString('hex') || '0'));
+        default:
+            // Unknown tags are ignored as allowed by the spec
+            return value;
+    }
+}
+
+function decodeHalfFloat(half: number): number {
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) {
+        return sign * 2 ** -14 * (mantissa / 1024);
+    } else if (exponent === 0x1f) {
+        return mantissa ? NaN : sign * Infinity;
+    }
+    return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+}
+
+function toMap(entries: [any, any][]): any {
+    return entries.every(([key]) => typeof key === 'string') ? Object.fromEntries(entries) : new Map(entries);
+}
@@ -0,0 +1,282 @@
+import { ByteReader, ByteWriter, readBytes, toNumberIfSafe } from './bytes';
+import { AurumDBCodec } from './registry';
+
+/**
+ * Extension type reserved by the MessagePack spec for timestamps
+ */
+const TIMESTAMP_EXT = -1;
+
+/**
+ * MessagePack (https://msgpack.org). Dates are written as timestamp extensions, bigints as 64 bit integers, Sets as arrays and Maps as maps.
+ * Maps with only string keys are read back as plain objects, other maps as Map instances
+ */
+export const msgpackCodec: AurumDBCodec = {
+    type: 'binary',
+    encode(value: any): Buffer {
+        const writer = new ByteWriter();
+        encodeValue(writer, value);
+        return writer.toBuffer();
+    },
+    decode(data: Buffer): any {
+        const reader = { data, offset: 0 };
+        const value = decodeValue(reader);
+        if (reader.offset !== data.length) {
+            throw new Error('Unexpected data after MessagePack value');
+        }
+        return value;
+    },
+};
+
+function encodeValue(writer: ByteWriter, value: any): void {
+    if (value === null || value === undefined) {
+        writer.writeUInt8(0xc0);
+    } else if (value === false) {
+        writer.writeUInt8(0xc2);
+    } else if (value === true) {
+        writer.writeUInt8(0xc3);
+    } else if (typeof value === 'number') {
+        encodeNumber(writer, value);
+    } else if (typeof value === 'bigint') {
+        encodeBigInt(writer, value);
+    } else if (typeof value === 'string') {
+        const bytes = Buffer.from(value, 'utf8');
+        encodeLength(writer, bytes.length, 0xa0, 31, 0xd9, 0xda, 0xdb);
+        writer.writeBytes(bytes);
+    } else if (value instanceof Uint8Array) {
+        encodeLength(writer, value.length, undefined, 0, 0xc4, 0xc5, 0xc6);
+        writer.writeBytes(value);
+    } else if (value instanceof Date) {
+        encodeTimestamp(writer, value);
+    } else if (Array.isArray(value) || value instanceof Set) {
+        const items = Array.from(value);
+        encodeLength(writer, items.length, 0x90, 15, undefined, 0xdc, 0xdd);
+        for (const item of items) {
+            encodeValue(writer, item);
+        }
+    } else if (value instanceof Map) {
+        encodeLength(writer, value.size, 0x80, 15, undefined, 0xde, 0xdf);
+        for (const [key, item] of value) {
+            encodeValue(writer, key);
+            encodeValue(writer, item);
+        }
+    } else if (typeof value === 'object') {
+        const keys = Object.keys(value).filter((key) => value[key] !== undefined);
+        encodeLength(writer, keys.length, 0x80, 15, undefined, 0xde, 0xdf);
+        for (const key of keys) {
+            encodeValue(writer, key);
+            encodeValue(writer, value[key]);
+        }
+    } else {
+        throw new Error(`Cannot encode ${typeof value} as MessagePack`);
+    }
+}
+
+function encodeNumber(writer: ByteWriter, value: number): void {
+    if (!Number.isSafeInteger(value)) {
+        writer.writeUInt8(0xcb);
+        writer.writeFloat64(value);
+    } else if (value >= 0 && value < 0x80) {
+        writer.writeUInt8(value);
+    } else if (value < 0 && value >= -32) {
+        writer.writeUInt8(value & 0xff);
+    } else if (value >= 0) {
+        if (value <= 0xff) {
+            writer.writeUInt8(0xcc);
+            writer.writeUInt8(value);
+        } else if (value <= 0xffff) {
+            writer.writeUInt8(0xcd);
+            writer.writeUInt16(value);
+        } else if (value <= 0xffffffff) {
+            writer.writeUInt8(0xce);
+            writer.writeUInt32(value);
+        } else {
+            writer.writeUInt8(0xcf);
+            writer.writeBigUInt64(BigInt(value));
+        }
+    } else if (value >= -0x80) {
+        writer.writeUInt8(0xd0);
+        writer.writeUInt8(value & 0xff);
+    } else if (value >= -0x8000) {
+        writer.writeUInt8(0xd1);
+        writer.writeUInt16(value & 0xffff);
+    } else if (value >= -0x80000000) {
+        writer.writeUInt8(0xd2);
+        writer.writeUInt32(value >>> 0);
+    } else {
+        writer.writeUInt8(0xd3);
+        writer.writeBigInt64(BigInt(value));
+    }
+}
+
+function encodeBigInt(writer: ByteWriter, value: bigint): void {
+    if (value >= BigInt(0) && value < BigInt(2) ** BigInt(64)) {
+        writer.writeUInt8(0xcf);
+        writer.writeBigUInt64(value);
+    } else if (value < BigInt(0) && value >= -(BigInt(2) ** BigInt(63))) {
+        writer.writeUInt8(0xd3);
+        writer.writeBigInt64(value);
+    } else {
+        throw new Error('BigInt does not fit into 64 bits');
+    }
+}
+
+/**
+ * Writes the header of a string, binary, array or map. Formats that do not exist for a type are passed as undefined
+ */
+function encodeLength(writer: ByteWriter, length: number, fix: number, fixMax: number, format8: number, format16: number, format32: number): void {
+    if (fix !== undefined && length <= fixMax) {
+        writer.writeUInt8(fix | length);
+    } else if (format8 !== undefined && length <= 0xff) {
+        writer.writeUInt8(format8);
+        writer.writeUInt8(length);
+    } else if (length <= 0xffff) {
+        writer.writeUInt8(format16);
+        writer.writeUInt16(length);
+    } else {
+        writer.writeUInt8(format32);
+        writer.writeUInt32(length);
+    }
+}
+
+function encodeTimestamp(writer: ByteWriter, date: Date): void {
+    const time = date.getTime();
+    const seconds = Math.floor(time / 1000);
+    const nanoseconds = (time - seconds * 1000) * 1e6;
+    if (seconds >= 0 && seconds <= 0xffffffff && nanoseconds === 0) {
+        writer.writeUInt8(0xd6);
+        writer.writeUInt8(TIMESTAMP_EXT & 0xff);
+        writer.writeUInt32(seconds);
+    } else {
+        // timestamp 96 covers dates before 1970 and after 2106
+        writer.writeUInt8(0xc7);
+        writer.writeUInt8(12);
+        writer.writeUInt8(TIMESTAMP_EXT & 0xff);
+        writer.writeUInt32(nanoseconds);
+        writer.writeBigInt64(BigInt(seconds));
+    }
+}
+
+function decodeValue(reader: ByteReader): any {
+    const format = readBytes(reader, 1)[0];
+    if (format < 0x80) {
+        return format;
+    } else if (format < 0x90) {
+        return decodeMap(reader, format & 0x0f);
+    } else if (format < 0xa0) {
+        return decodeArray(reader, format & 0x0f);
+    } else if (format < 0xc0) {
+        return readBytes(reader, format & 0x1f).toString('utf8');
+    } else if (format >= 0xe0) {
+        return format - 0x100;
+    }
+
+    switch (format) {
+        case 0xc0:
+            return null;
+        case 0xc2:
+            return false;
+        case 0xc3:
+            return true;
+        case 0xc4:
+            return Buffer.from(readBytes(reader, readUInt(reader, 1)));
+        case 0xc5:
+            return Buffer.from(readBytes(reader, readUInt(reader, 2)));
+        case 0xc6:
+            return Buffer.from(readBytes(reader, readUInt(reader, 4)));
+        case 0xc7:
+            return decodeExtension(reader, readUInt(reader, 1));
+        case 0xc8:
+            return decodeExtension(reader, readUInt(reader, 2));
+        case 0xc9:
+            return decodeExtension(reader, readUInt(reader, 4));
+        case 0xca:
+            return readBytes(reader, 4).readFloatBE(0);
+        case 0xcb:
+            return readBytes(reader, 8).readDoubleBE(0);
+        case 0xcc:
+            return readUInt(reader, 1);
+        case 0xcd:
+            return readUInt(reader, 2);
+        case 0xce:
+            return readUInt(reader, 4);
+        case 0xcf:
+            return toNumberIfSafe(readBytes(reader, 8).readBigUInt64BE(0));
+        case 0xd0:
+            return readBytes(reader, 1).readInt8(0);
+        case 0xd1:
+            return readBytes(reader, 2).readInt16BE(0);
+        case 0xd2:
+            return readBytes(reader, 4).readInt32BE(0);
+        case 0xd3:
+            return toNumberIfSafe(readBytes(reader, 8).readBigInt64BE(0));
+        case 0xd4:
+            return decodeExtension(reader, 1);
+        case 0xd5:
+            return decodeExtension(reader, 2);
+        case 0xd6:
+            return decodeExtension(reader, 4);
+        case 0xd7:
+            return decodeExtension(reader, 8);
+        case 0xd8:
+            return decodeExtension(reader, 16);
+        case 0xd9:
+            return readBytes(reader, readUInt(reader, 1)).toString('utf8');
+        case 0xda:
+            return readBytes(reader, readUInt(reader, 2)).toString('utf8');
+        case 0xdb:
+            return readBytes(reader, readUInt(reader, 4)).toString('utf8');
+        case 0xdc:
+            return decodeArray(reader, readUInt(reader, 2));
+        case 0xdd:
+            return decodeArray(reader, readUInt(reader, 4));
+        case 0xde:
+            return decodeMap(reader, readUInt(reader, 2));
+        case 0xdf:
+            return decodeMap(reader, readUInt(reader, 4));
+        default:
+            throw new Error(`Invalid MessagePack format 0x${format.toString(16)}`);
+    }
+}
+
+function readUInt(reader: ByteReader, size: 1 | 2 | 4): number {
+    return readBytes(reader, size).readUIntBE(0, size);
+}
+
+function decodeArray(reader: ByteReader, length: number): any[] {
+    const items = [];
+    for (let i = 0; i < length; i++) {
+        items.push(decodeValue(reader));
+    }
+    return items;
+}
+
+function decodeMap(reader: ByteReader, size: number): any {
+    const entries: [any, any][] = [];
+    for (let i = 0; i < size; i++) {
+        entries.push([decodeValue(reader), decodeValue(reader)]);
+    }
+    return entries.every(([key]) => typeof key === 'string') ? Object.fromEntries(entries) : new Map(entries);
+}
+
+function decodeExtension(reader: ByteReader, length: number): any {
+    const type = readBytes(reader, 1).readInt8(0);
+    const data = readBytes(reader, length);
+    if (type !== TIMESTAMP_EXT) {
+        throw new Error(`Unsupported MessagePack extension type ${type}`);
+    }
+    switch (length) {
+        case 4:
+            return new Date(data.readUInt32BE(0) * 1000);
+        case 8: {
+            // 30 bits of nanoseconds followed by 34 bits of seconds
+            const combined = data.readBigUInt64BE(0);
+            const nanoseconds = Number(combined >> BigInt(34));
+            const seconds = Number(combined & (BigInt(2) ** BigInt(34) - BigInt(1)));
+            return new Date(seconds * 1000 + nanoseconds / 1e6);
+        }
+        case 12:
+            return new Date(Number(data.readBigInt64BE(4)) * 1000 + data.readUInt32BE(0) / 1e6);
+        default:
+            throw new Error(`Invalid MessagePack timestamp length ${length}`);
+    }
+}
@@ -0,0 +1,75 @@
+import { Encodings } from '../leveldb';
+import { cborCodec } from './cbor';
+import { msgpackCodec } from './msgpack';
+import { richJsonCodec } from './rich_json';
+
+/**
+ * Converts values to what leveldb stores. Binary codecs encode to buffers, utf8 codecs to strings
+ */
+export interface AurumDBCodec<T = any> {
+    encode(value: T): Buffer | string;
+    decode(data: Buffer | string): T;
+    type: 'binary' | 'utf8';
+}
+
+/**
+ * The shape leveldb accepts in place of an encoding name
+ */
+export interface LevelEncoding {
+    encode(value: any): Buffer | string;
+    decode(data: Buffer | string): any;
+    buffer: boolean;
+    type: string;
+}
+
+const LEVEL_ENCODINGS = ['utf8', 'utf-8', 'hex', 'ascii', 'base64', 'ucs2', 'ucs-2', 'utf16le', 'utf-16le', 'binary', 'json', 'none', 'id'];
+
+/**
+ * Codecs known to a database and the structures in it, looked up by name wherever an encoding is accepted. Comes with msgpack, cbor and rich-json registered
+ */
+export class AurumDBCodecRegistry {
+    private codecs: Map<string, LevelEncoding>;
+
+    constructor() {
+        this.codecs = new Map();
+        this.register('msgpack', msgpackCodec);
+        this.register('cbor', cborCodec);
+        this.register('rich-json', richJsonCodec);
+    }
+
+    public register(name: string, codec: AurumDBCodec): void {
+        if (LEVEL_ENCODINGS.includes(name) || this.codecs.has(name)) {
+            throw new Error(`Encoding ${name} already exists`);
+        }
+        this.codecs.set(name, {
+            encode: (value) => codec.encode(value),
+            decode: (data) => codec.decode(data),
+            buffer: codec.type === 'binary',
+            type: name,
+        });
+    }
+
+    public has(name: string): boolean {
+        return this.codecs.has(name);
+    }
+
+    /**
+     * Returns undefined if no codec is registered under the name
+     */
+    public get(name: string): LevelEncoding {
+        return this.codecs.get(name);
+    }
+
+    /**
+     * Replaces the names of registered codecs with something leveldb understands, leveldb encodings are passed through
+     */
+    public resolve(encoding: Encodings | LevelEncoding): Encodings | LevelEncoding {
+        if (typeof encoding === 'string' && this.codecs.has(encoding)) {
+            return this.codecs.get(encoding);
+        }
+        if (typeof encoding === 'string' && !LEVEL_ENCODINGS.includes(encoding)) {
+            throw new Error(`Unknown encoding ${encoding}`);
+        }
+        return encoding;
+    }
+}
@@ -0,0 +1,88 @@
+import { AurumDBCodec } from './registry';
+
+/**
+ * Values JSON can not represent are written as objects with this property naming their type. Plain objects that happen to have this property are wrapped as well, so they are read back unchanged
+ */
+const TYPE_PROPERTY = '$type';
+
+/**
+ * JSON that round trips Date, Map, Set, BigInt, Buffer, undefined and non finite numbers. The output stays readable JSON
+ */
+export const richJsonCodec: AurumDBCodec = {
+    type: 'utf8',
+    encode(value: any): string {
+        return JSON.stringify(toJson(value));
+    },
+    decode(data: string): any {
+        return fromJson(JSON.parse(data));
+    },
+};
+
+function toJson(value: any): any {
+    if (value === undefined) {
+        return { [TYPE_PROPERTY]: 'undefined' };
+    } else if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+        return value;
+    } else if (typeof value === 'number') {
+        return Number.isFinite(value) ? value : { [TYPE_PROPERTY]: 'Number', value: value.toString() };
+    } else if (typeof value === 'bigint') {
+        return { [TYPE_PROPERTY]: 'BigInt', value: value.toString() };
+    } else if (value instanceof Date) {
+        return { [TYPE_PROPERTY]: 'Date', value: value.toJSON() };
+    } else if (value instanceof Uint8Array) {
+        return { [TYPE_PROPERTY]: 'Buffer', value: Buffer.from(value).toString('base64') };
+    } else if (value instanceof Map) {
+        return { [TYPE_PROPERTY]: 'Map', value: Array.from(value, ([key, item]) => [toJson(key), toJson(item)]) };
+    } else if (value instanceof Set) {
+        return { [TYPE_PROPERTY]: 'Set', value: Array.from(value, toJson) };
+    } else if (Array.isArray(value)) {
+        return value.map(toJson);
+    } else if (typeof value === 'object') {
+        const result = {};
+        for (const key of Object.keys(value)) {
+            result[key] = toJson(value[key]);
+        }
+        return TYPE_PROPERTY in value ? { [TYPE_PROPERTY]: 'Object', value: result } : result;
+    } else {
+        throw new Error(`Cannot encode ${typeof value} as rich JSON`);
+    }
+}
+
+function fromJson(json: any): any {
+    if (Array.isArray(json)) {
+        return json.map(fromJson);
+    } else if (json === null || typeof json !== 'object') {
+        return json;
+    }
+
+    switch (json[TYPE_PROPERTY]) {
+        case undefined:
+            return fromJsonObject(json);
+        case 'Object':
+            return fromJsonObject(json.value);
+        case 'undefined':
+            return undefined;
+        case 'Number':
+            return Number(json.value);
+        case 'BigInt':
+            return BigInt(json.value);
+        case 'Date':
+            return new Date(json.value);
+        case 'Buffer':
+            return Buffer.from(json.value, 'base64');
+        case 'Map':
+            return new Map(json.value.map(([key, item]) => [fromJson(key), fromJson(item)]));
+        case 'Set':
+            return new Set(json.value.map(fromJson));
+        default:
+            throw new Error(`Unknown rich JSON type ${json[TYPE_PROPERTY]}`);
+    }
+}
+
+function fromJsonObject(json: any): any {
+    const result = {};
+    for (const key of Object.keys(json)) {
+        result[key] = fromJson(json[key]);
+    }
+    return result;
+}
@@ -1 +1,6 @@
 export const META_KEY = '!!meta!!';
+export const LENGTH_KEY = '!!length!!';
+export const SIZE_KEY = '!!size!!';
+export const HEAD_KEY = '!!head!!';
+export const TAIL_KEY = '!!tail!!';
+export const NEXT_ID_KEY = '!!nextId!!';
@@ -0,0 +1,365 @@
+import { AbstractBatch } from 'abstract-leveldown';
+import { ArrayDataSource, CancellationToken, DataSource } from 'aurumjs';
+import { LevelUp } from 'levelup';
+import { HEAD_KEY, LENGTH_KEY, NEXT_ID_KEY, TAIL_KEY } from '../constants';
+import { AurumDBIterator } from '../iterator';
+
+interface LinkedNode<T> {
+    value: T;
+    prev: string | null;
+    next: string | null;
+}
+
+export interface AurumDBLinkedCollectionNode<T> {
+    id: string;
+    value: T;
+}
+
+interface CollectionObserver<T> {
+    ads: ArrayDataSource<T>;
+    /**
+     * Node ids in the same order as the items of the array data source, used to translate node ids into array indices
+     */
+    ids: string[];
+}
+
+/**
+ * Every node is stored under its own id and holds the ids of its neighbours. Head, tail, length and the id counter are stored as separate keys.
+ * All mutations are written as a single batch so the links can never be left half updated
+ */
+export class AurumDBLinkedCollection<T> {
+    protected db: LevelUp;
+    private lock: Promise<any>;
+    private totalObservers: CollectionObserver<T>[];
+    private keyObservers: Map<string, DataSource<any>[]>;
+
+    constructor(db: LevelUp) {
+        this.db = db;
+        this.lock = Promise.resolve();
+        this.totalObservers = [];
+        this.keyObservers = new Map();
+    }
+
+    public observeLength(cancellationToken: CancellationToken): Promise<DataSource<number>> {
+        return this.observeKey(LENGTH_KEY, () => this.db.get(LENGTH_KEY), cancellationToken);
+    }
+
+    public observeHead(cancellationToken: CancellationToken): Promise<DataSource<T>> {
+        return this.observeKey(HEAD_KEY, async () => (await this.getEnd(HEAD_KEY))?.value, cancellationToken);
+    }
+
+    public observeTail(cancellationToken: CancellationToken): Promise<DataSource<T>> {
+        return this.observeKey(TAIL_KEY, async () => (await this.getEnd(TAIL_KEY))?.value, cancellationToken);
+    }
+
+    /**
+     * Caution: This has to read the entire collection from the database on initialization which may be slow and memory intensive. Not recommended for collections with over 5k entries
+     */
+    public observeEntireCollection(cancellationToken: CancellationToken): Promise<ArrayDataSource<T>> {
+        return this.withLock(async () => {
+            const observer: CollectionObserver<T> = { ads: undefined, ids: [] };
+            const items = [];
+            let cursor = await this.tryGet(HEAD_KEY);
+            while (cursor !== undefined && cursor !== null) {
+                const node = await this.getNode(cursor);
+                observer.ids.push(cursor);
+                items.push(node.value);
+                cursor = node.next;
+            }
+            observer.ads = new ArrayDataSource(items);
+
+            this.totalObservers.push(observer);
+            cancellationToken.addCancelable(() => {
+                const index = this.totalObservers.indexOf(observer);
+                if (index !== -1) {
+                    this.totalObservers.splice(index, 1);
+                }
+            });
+
+            return observer.ads;
+        });
+    }
+
+    private observeKey<V>(key: string, read: () => Promise<V>, cancellationToken: CancellationToken): Promise<DataSource<V>> {
+        return this.withLock(async () => {
+            const ds = new DataSource<V>(await read());
+
+            if (!this.keyObservers.has(key)) {
+                this.keyObservers.set(key, []);
+            }
+            this.keyObservers.get(key).push(ds);
+            cancellationToken.addCancelable(() => {
+                const dss = this.keyObservers.get(key);
+                const index = dss.indexOf(ds);
+                if (index !== -1) {
+                    dss.splice(index, 1);
+                }
+            });
+
+            return ds;
+        });
+    }
+
+    private onKeyChange(key: string, value: any): void {
+        if (this.keyObservers.has(key)) {
+            for (const ds of this.keyObservers.get(key)) {
+                ds.update(value);
+            }
+        }
+    }
+
+    private onInsert(id: string, prevId: string | null, value: T): void {
+        for (const observer of this.totalObservers) {
+            const index = prevId === null ? 0 : observer.ids.indexOf(prevId) + 1;
+            observer.ids.splice(index, 0, id);
+            observer.ads.splice(index, 0, value);
+        }
+    }
+
+    private onRemove(id: string): void {
+        for (const observer of this.totalObservers) {
+            const index = observer.ids.indexOf(id);
+            if (index !== -1) {
+                observer.ids.splice(index, 1);
+                observer.ads.splice(index, 1);
+            }
+        }
+    }
+
+    public async length(): Promise<number> {
+        await this.lock;
+        return this.db.get(LENGTH_KEY);
+    }
+
+    public async first(): Promise<AurumDBLinkedCollectionNode<T>> {
+        await this.lock;
+        return this.getEnd(HEAD_KEY);
+    }
+
+    public async last(): Promise<AurumDBLinkedCollectionNode<T>> {
+        await this.lock;
+        return this.getEnd(TAIL_KEY);
+    }
+
+    public async get(nodeId: string): Promise<T> {
+        await this.lock;
+        return (await this.getNode(nodeId)).value;
+    }
+
+    /**
+     * Appends an item at the end of the list and returns the id of the new node
+     */
+    public push(item: T): Promise<string> {
+        return this.withLock(async () => this.insertBetween((await this.tryGet(TAIL_KEY)) ?? null, null, item));
+    }
+
+    /**
+     * Prepends an item at the start of the list and returns the id of the new node
+     */
+    public unshift(item: T): Promise<string> {
+        return this.withLock(async () => this.insertBetween(null, (await this.tryGet(HEAD_KEY)) ?? null, item));
+    }
+
+    public pop(): Promise<T> {
+        return this.withLock(async () => {
+            const tail = await this.tryGet(TAIL_KEY);
+            return tail === undefined ? undefined : this.removeNode(tail);
+        });
+    }
+
+    public shift(): Promise<T> {
+        return this.withLock(async () => {
+            const head = await this.tryGet(HEAD_KEY);
+            return head === undefined ? undefined : this.removeNode(head);
+        });
+    }
+
+    public insertAfter(nodeId: string, item: T): Promise<string> {
+        return this.withLock(async () => this.insertBetween(nodeId, (await this.getNode(nodeId)).next, item));
+    }
+
+    public insertBefore(nodeId: string, item: T): Promise<string> {
+        return this.withLock(async () => this.insertBetween((await this.getNode(nodeId)).prev, nodeId, item));
+    }
+
+    /**
+     * Removes a node from anywhere in the list and returns its value
+     */
+    public remove(nodeId: string): Promise<T> {
+        return this.withLock(() => this.removeNode(nodeId));
+    }
+
+    /**
+     * Walks the links starting from the head, or from the tail when reverse is set. The key of each entry is the node id.
+     * Unlike leveldb iterators this is not snapshot based, removing nodes ahead of the iterator while iterating is not supported
+     */
+    public iterator(reverse: boolean = false): AurumDBIterator<T> {
+        let cursor: string = undefined;
+        let started = false;
+
+        return new AurumDBIterator<T>({
+            next: (cb: (err: any, key?: string, value?: T) => void) => {
+                (async () => {
+                    await this.lock;
+                    if (!started) {
+                        started = true;
+                        cursor = await this.tryGet(reverse ? TAIL_KEY : HEAD_KEY);
+                    }
+                    if (cursor === undefined || cursor === null) {
+                        return cb(undefined);
+                    }
+                    const id = cursor;
+                    const node = await this.getNode(id);
+                    cursor = reverse ? node.prev : node.next;
+                    cb(undefined, id, node.value);
+                })().catch(cb);
+            },
+            end: (cb: (err?: any) => void) => {
+                cursor = null;
+                cb();
+            },
+            // Node ids are not ordered, seeking continues the walk at the node
+            seek: (target: string) => {
+                started = true;
+                cursor = target;
+            },
+        });
+    }
+
+    public async toArray(reverse: boolean = false): Promise<T[]> {
+        const items = [];
+        for await (const { value } of this.iterator(reverse).asGenerator()) {
+            items.push(value);
+        }
+        return items;
+    }
+
+    public async forEach(cb: (item: T, nodeId: string) => void, reverse: boolean = false): Promise<void> {
+        for await (const { key, value } of this.iterator(reverse).asGenerator()) {
+            cb(value, key);
+        }
+    }
+
+    public clear(): Promise<void> {
+        return this.withLock(async () => {
+            // The meta key is skipped by the iterator and stays, so the collection keeps existing
+            const ops: AbstractBatch[] = [];
+            for await (const { key } of new AurumDBIterator<any>(this.db.iterator({ values: false }))) {
+                ops.push({ type: 'del', key });
+            }
+            ops.push({ type: 'put', key: LENGTH_KEY, value: 0 });
+            await this.db.batch(ops);
+            for (const observer of this.totalObservers) {
+                observer.ids.length = 0;
+                observer.ads.clear();
+            }
+            this.onKeyChange(LENGTH_KEY, 0);
+            this.onKeyChange(HEAD_KEY, undefined);
+            this.onKeyChange(TAIL_KEY, undefined);
+        });
+    }
+
+    private withLock<R>(operation: () => Promise<R>): Promise<R> {
+        const result = this.lock.then(operation);
+        this.lock = result.catch(() => undefined);
+        return result;
+    }
+
+    private async getEnd(pointer: string): Promise<AurumDBLinkedCollectionNode<T>> {
+        const id = await this.tryGet(pointer);
+        if (id === undefined) {
+            return undefined;
+        }
+        return { id, value: (await this.getNode(id)).value };
+    }
+
+    private async tryGet<V = string>(key: string): Promise<V> {
+        try {
+            return await this.db.get(key);
+        } catch (e) {
+            if (e.notFound) {
+                return undefined;
+            } else {
+                throw e;
+            }
+        }
+    }
+
+    private async getNode(nodeId: string): Promise<LinkedNode<T>> {
+        try {
+            return await this.db.get(nodeId);
+        } catch (e) {
+            if (e.notFound) {
+                throw new Error(`Node ${nodeId} does not exist`);
+            } else {
+                throw e;
+            }
+        }
+    }
+
+    private async insertBetween(prevId: string | null, nextId: string | null, value: T): Promise<string> {
+        const len: number = await this.db.get(LENGTH_KEY);
+        const counter: number = (await this.tryGet<number>(NEXT_ID_KEY)) ?? 0;
+        const id = counter.toString();
+        const ops: AbstractBatch[] = [
+            { type: 'put', key: NEXT_ID_KEY, value: counter + 1 },
+            { type: 'put', key: id, value: { value, prev: prevId, next: nextId } as LinkedNode<T> },
+            { type: 'put', key: LENGTH_KEY, value: len + 1 },
+        ];
+
+        if (prevId === null) {
+            ops.push({ type: 'put', key: HEAD_KEY, value: id });
+        } else {
+            ops.push({ type: 'put', key: prevId, value: { ...(await this.getNode(prevId)), next: id } });
+        }
+        if (nextId === null) {
+            ops.push({ type: 'put', key: TAIL_KEY, value: id });
+        } else {
+            ops.push({ type: 'put', key: nextId, value: { ...(await this.getNode(nextId)), prev: id } });
+        }
+
+        await this.db.batch(ops);
+        this.onInsert(id, prevId, value);
+        this.onKeyChange(LENGTH_KEY, len + 1);
+        if (prevId === null) {
+            this.onKeyChange(HEAD_KEY, value);
+        }
+        if (nextId === null) {
+            this.onKeyChange(TAIL_KEY, value);
+        }
+        return id;
+    }
+
+    private async removeNode(nodeId: string): Promise<T> {
+        const len: number = await this.db.get(LENGTH_KEY);
+        const node = await this.getNode(nodeId);
+        const ops: AbstractBatch[] = [
+            { type: 'del', key: nodeId },
+            { type: 'put', key: LENGTH_KEY, value: len - 1 },
+        ];
+
+        const prev = node.prev === null ? undefined : await this.getNode(node.prev);
+        const next = node.next === null ? undefined : await this.getNode(node.next);
+        if (prev === undefined) {
+            ops.push(next === undefined ? { type: 'del', key: HEAD_KEY } : { type: 'put', key: HEAD_KEY, value: node.next });
+        } else {
+            ops.push({ type: 'put', key: node.prev, value: { ...prev, next: node.next } });
+        }
+        if (next === undefined) {
+            ops.push(prev === undefined ? { type: 'del', key: TAIL_KEY } : { type: 'put', key: TAIL_KEY, value: node.prev });
+        } else {
+            ops.push({ type: 'put', key: node.next, value: { ...next, prev: node.prev } });
+        }
+
+        await this.db.batch(ops);
+        this.onRemove(nodeId);
+        this.onKeyChange(LENGTH_KEY, len - 1);
+        if (prev === undefined) {
+            this.onKeyChange(HEAD_KEY, next?.value);
+        }
+        if (next === undefined) {
+            this.onKeyChange(TAIL_KEY, prev?.value);
+        }
+        return node.value;
+    }
+}
@@ -1,17 +1,43 @@
 import { ArrayDataSource, DataSource, CancellationToken } from 'aurumjs';
 import { AbstractBatch } from 'abstract-leveldown';
 import { LevelUp } from 'levelup';
-import { META_KEY } from '../constants';
+import { LENGTH_KEY, META_KEY } from '../constants';
+import { AurumDBCipher } from '../encryption';
+import { AurumDBValidationError } from '../errors';
 import { AurumDBIterator } from '../iterator';
+import { LevelEncoding } from '../codecs/registry';
+import { Encodings } from '../leveldb';
+import { AurumDBStructureMetadata } from '../metadata';
+import { AurumDBInvalidRecord, AurumDBJsonSchema, AurumDBValidator, validate } from '../schema';
+import { AurumDBSnapshotReader, decodeSnapshotValue } from '../snapshot';
+
+/**
+ * Leveldb sorts keys lexicographically, padding the indices to a fixed width makes that order match the numeric order. The width fits Number.MAX_SAFE_INTEGER
+ */
+const INDEX_KEY_WIDTH = 16;
+
+function encodeIndex(index: number): string {
+    return index.toString().padStart(INDEX_KEY_WIDTH, '0');
+}
+
+interface CollectionObserver<T> {
+    ads: ArrayDataSource<T>;
+    /**
+     * Index in the collection of the first item of the array data source, non zero for observers that only cover the end of the collection
+     */
+    offset: number;
+}
 
 export class AurumDBOrderedCollection<T> {
-    private totalObservers: ArrayDataSource<T>[];
+    private totalObservers: CollectionObserver<T>[];
     private keyObservers: Map<string, DataSource<any>[]>;
     private db: LevelUp;
     private lock: Promise<any>;
+    private validator: Promise<AurumDBValidator<T>>;
 
     constructor(db: LevelUp) {
         this.db = db;
+        this.lock = Promise.resolve();
         this.totalObservers = [];
         this.keyObservers = new Map();
         this.db.on('batch', (ops: AbstractBatch[]) => {
@@ -61,11 +87,11 @@ export class AurumDBOrderedCollection<T> {
     }
 
     public observeLength(cancellationToken: CancellationToken): Promise<DataSource<number>> {
-        return this.observeKey(META_KEY, cancellationToken);
+        return this.observeKey(LENGTH_KEY, cancellationToken);
     }
 
     public observeAt(index: number, cancellationToken: CancellationToken): Promise<DataSource<T>> {
-        return this.observeKey(index.toString(), cancellationToken);
+        return this.observeKey(encodeIndex(index), cancellationToken);
     }
 
     private async observeKey(key: string, cancellationToken: CancellationToken): Promise<DataSource<any>> {
@@ -99,10 +125,11 @@ export class AurumDBOrderedCollection<T> {
     public async observeEntireCollection(cancellationToken: CancellationToken): Promise<ArrayDataSource<T>> {
         await this.lock;
         const ads = new ArrayDataSource(await this.toArray());
+        const observer = { ads, offset: 0 };
 
-        this.totalObservers.push(ads);
+        this.totalObservers.push(observer);
         cancellationToken.addCancelable(() => {
-            const index = this.totalObservers.indexOf(ads);
+            const index = this.totalObservers.indexOf(observer);
             if (index !== -1) {
                 this.totalObservers.splice(index, 1);
             }
@@ -118,13 +145,14 @@ export class AurumDBOrderedCollection<T> {
         await this.lock;
         const len = await this.length();
         const ads = new ArrayDataSource<T>();
-        for (let i = Math.max(0, len - amount); i < len; i++) {
+        const observer = { ads, offset: Math.max(0, len - amount) };
+        for (let i = observer.offset; i < len; i++) {
             ads.push(await this.get(i));
         }
 
-        this.totalObservers.push(ads);
+        this.totalObservers.push(observer);
         cancellationToken.addCancelable(() => {
-            const index = this.totalObservers.indexOf(ads);
+            const index = this.totalObservers.indexOf(observer);
             if (index !== -1) {
                 this.totalObservers.splice(index, 1);
             }
@@ -135,7 +163,17 @@ export class AurumDBOrderedCollection<T> {
 
     public async length(): Promise<number> {
         await this.lock;
-        return await this.db.get(META_KEY, { valueEncoding: 'json' });
+        return this.readLength();
+    }
+
+    private readLength(): Promise<number> {
+        return this.db.get(LENGTH_KEY, { valueEncoding: 'json' });
+    }
+
+    private withLock<R>(operation: () => Promise<R>): Promise<R> {
+        const result = this.lock.then(operation);
+        this.lock = result.catch(() => undefined);
+        return result;
     }
 
     public async get(index: number): Promise<T> {
@@ -144,7 +182,7 @@ export class AurumDBOrderedCollection<T> {
         if (index > len) {
             throw new Error('cannot read outside of bounds of array');
         }
-        return this.db.get(index);
+        return this.db.get(encodeIndex(index));
     }
 
     public async set(index: number, item: T): Promise<void> {
@@ -153,30 +191,102 @@ export class AurumDBOrderedCollection<T> {
         if (index > len) {
             throw new Error('cannot write outside of bounds of array');
         }
+        await this.assertValid(index, item);
 
-        for (const ads of this.totalObservers) {
-            ads.set(index, item);
+        for (const { ads, offset } of this.totalObservers) {
+            if (index >= offset) {
+                ads.set(index - offset, item);
+            }
         }
-        return this.db.put(index, item);
+        return this.db.put(encodeIndex(index), item);
     }
 
-    public async push(...items: T[]): Promise<void> {
-        await this.lock;
-        this.lock = new Promise(async (resolve) => {
-            const len = await this.length();
+    public push(...items: T[]): Promise<void> {
+        return this.withLock(async () => {
+            const len = await this.readLength();
+            for (let i = 0; i < items.length; i++) {
+                await this.assertValid(len + i, items[i]);
+            }
             const batch = this.db.batch();
             for (let i = 0; i < items.length; i++) {
-                batch.put(`${len + i}`, items[i]);
+                batch.put(encodeIndex(len + i), items[i]);
             }
-            batch.put(META_KEY, len + items.length);
-            for (const ads of this.totalObservers) {
+            batch.put(LENGTH_KEY, len + items.length);
+            for (const { ads } of this.totalObservers) {
                 ads.appendArray(items);
             }
 
             await batch.write();
-            resolve(undefined);
         });
-        return this.lock;
+    }
+
+    /**
+     * Inserts items at the given index, every item after it has to be moved which makes this expensive for large collections
+     */
+    public async insert(index: number, ...items: T[]): Promise<void> {
+        await this.splice(index, 0, ...items);
+    }
+
+    /**
+     * Removes count items starting at the given index and returns them, every item after them has to be moved which makes this expensive for large collections
+     */
+    public removeAt(index: number, count: number = 1): Promise<T[]> {
+        return this.splice(index, count);
+    }
+
+    /**
+     * Works like Array.prototype.splice. All moved items and the new length are written in a single batch
+     */
+    public splice(start: number, deleteCount: number, ...items: T[]): Promise<T[]> {
+        return this.withLock(async () => {
+            const len = await this.readLength();
+            if (start > len || start < 0) {
+                throw new Error('cannot write outside of bounds of array');
+            }
+            deleteCount = Math.max(0, Math.min(deleteCount, len - start));
+            for (let i = 0; i < items.length; i++) {
+                await this.assertValid(start + i, items[i]);
+            }
+
+            const removed: T[] = [];
+            for (let i = start; i < start + deleteCount; i++) {
+                removed.push(await this.db.get(encodeIndex(i)));
+            }
+            const moved: T[] = [];
+            if (deleteCount !== items.length) {
+                for (let i = start + deleteCount; i < len; i++) {
+                    moved.push(await this.db.get(encodeIndex(i)));
+                }
+            }
+
+            const newLength = len - deleteCount + items.length;
+            const batch = this.db.batch();
+            const writes = items.concat(moved);
+            for (let i = 0; i < writes.length; i++) {
+                batch.put(encodeIndex(start + i), writes[i]);
+            }
+            for (let i = newLength; i < len; i++) {
+                batch.del(encodeIndex(i));
+            }
+            //@ts-ignore
+            batch.put(LENGTH_KEY, newLength, {
+                valueEncoding: 'json',
+            });
+            await batch.write();
+
+            for (const observer of this.totalObservers) {
+                const localStart = start - observer.offset;
+                if (localStart >= 0) {
+                    observer.ads.splice(localStart, deleteCount, ...items);
+                } else {
+                    const deletedBefore = Math.min(deleteCount, -localStart);
+                    observer.ads.removeLeft(deleteCount - deletedBefore);
+                    observer.offset += items.length - deletedBefore;
+                }
+            }
+
+            return removed;
+        });
     }
 
     public async slice(startIndex: number, endIndex: number): Promise<T[]> {
@@ -185,59 +295,263 @@ export class AurumDBOrderedCollection<T> {
         if (startIndex > len || startIndex < 0 || endIndex > len || endIndex < 0) {
             throw new Error('cannot write outside of bounds of array');
         }
-        const items = [];
-        for (let i = startIndex; i < endIndex; i++) {
-            items.push(await this.db.get(i));
-        }
-        return items;
+        return this.readRange(startIndex, endIndex);
     }
 
-    public async pop(): Promise<T> {
-        await this.lock;
-        this.lock = new Promise(async (resolve) => {
-            const len = await this.length();
+    public pop(): Promise<T> {
+        return this.withLock(async () => {
+            const len = await this.readLength();
             const batch = this.db.batch();
 
-            const v = await this.db.get(len - 1);
+            const v = await this.db.get(encodeIndex(len - 1));
             //@ts-ignore
-            batch.put(META_KEY, len - 1, {
+            batch.put(LENGTH_KEY, len - 1, {
                 valueEncoding: 'json',
             });
-            batch.del(len - 1);
-            for (const ads of this.totalObservers) {
+            batch.del(encodeIndex(len - 1));
+            for (const { ads } of this.totalObservers) {
                 ads.pop();
             }
             await batch.write();
-            resolve(v);
+            return v;
         });
-        return this.lock;
+    }
+
+    /**
+     * Used by AurumDBTransaction to hold the lock of this collection while a commit is prepared and written
+     */
+    public lockForCommit<R>(commit: () => Promise<R>): Promise<R> {
+        return this.withLock(commit);
+    }
+
+    /**
+     * Used by AurumDBTransaction to turn buffered changes into batch operations. Must be called while holding the lock, pushed items are placed after the current length
+     */
+    public async prepareBatch(updated: Map<number, T>, pushed: T[], valueEncoding?: Encodings | LevelEncoding): Promise<AbstractBatch[]> {
+        const len = await this.readLength();
+        const ops: AbstractBatch[] = [];
+        for (const [index, item] of updated) {
+            if (index < 0 || index >= len) {
+                throw new Error('cannot write outside of bounds of array');
+            }
+            await this.assertValid(index, item);
+            ops.push({ type: 'put', key: encodeIndex(index), value: item, valueEncoding } as AbstractBatch);
+        }
+        for (let i = 0; i < pushed.length; i++) {
+            await this.assertValid(len + i, pushed[i]);
+            ops.push({ type: 'put', key: encodeIndex(len + i), value: pushed[i], valueEncoding } as AbstractBatch);
+        }
+        if (pushed.length) {
+            ops.push({ type: 'put', key: LENGTH_KEY, value: len + pushed.length, valueEncoding: 'json' } as AbstractBatch);
+        }
+        return ops;
+    }
+
+    /**
+     * Used by AurumDBTransaction to notify the observers of this collection about a committed batch created by prepareBatch
+     */
+    public onTransactionCommit(ops: AbstractBatch[]): void {
+        const puts = ops
+            .filter((op) => op.type === 'put' && op.key !== LENGTH_KEY)
+            .map((op) => ({ index: parseInt(op.key, 10), value: (op as any).value as T }))
+            .sort((a, b) => a.index - b.index);
+
+        for (const { ads, offset } of this.totalObservers) {
+            let end = offset + ads.getData().length;
+            for (const { index, value } of puts) {
+                if (index >= end) {
+                    ads.push(value);
+                    end++;
+                } else if (index >= offset) {
+                    ads.set(index - offset, value);
+                }
+            }
+        }
+        this.db.emit('batch', ops);
     }
 
     async clear(): Promise<void> {
         await this.lock;
+        const metadata = await this.db.get(META_KEY, { valueEncoding: 'json' });
         await this.db.clear();
-        for (const ads of this.totalObservers) {
-            ads.clear();
+        for (const observer of this.totalObservers) {
+            observer.ads.clear();
+            observer.offset = 0;
         }
-        await this.db.put(META_KEY, 0, { valueEncoding: 'json' });
+        await this.db.put(META_KEY, metadata, { valueEncoding: 'json' });
+        await this.db.put(LENGTH_KEY, 0, { valueEncoding: 'json' });
     }
 
-    async toArray(): Promise<T[]> {
-        await this.lock;
-        const items = [];
-        const len = await this.length();
-        for (let i = 0; i < len; i++) {
-            items.push(await this.db.get(i));
+    /**
+     * Every item written through set, push, insert, splice or a transaction has to pass the validator, otherwise the write is rejected with an AurumDBValidationError.
+     * JSON schemas are stored in the metadata of the collection, validator functions have to be set again every time the collection is opened. Passing undefined removes the validator
+     */
+    public setValidator(validator: AurumDBValidator<T>): Promise<void> {
+        return this.withLock(async () => {
+            const metadata: AurumDBStructureMetadata = await this.db.get(META_KEY, { valueEncoding: 'json' });
+            const schema = typeof validator === 'function' ? undefined : validator;
+            await this.db.put(META_KEY, { ...metadata, schema }, { valueEncoding: 'json' });
+            this.validator = Promise.resolve(validator);
+        });
+    }
+
+    /**
+     * Checks every item against the current validator, the key of each reported record is the index of the item
+     */
+    public async validateAll(): Promise<AurumDBInvalidRecord[]> {
+        const validator = await this.getValidator();
+        const invalid: AurumDBInvalidRecord[] = [];
+        if (validator === undefined) {
+            return invalid;
         }
+        let i = 0;
+        await this.forEach((item) => {
+            const issue = validate(validator, item);
+            if (issue) {
+                invalid.push({ key: i.toString(), ...issue });
+            }
+            i++;
+        });
+        return invalid;
+    }
 
-        return items;
+    private async assertValid(index: number, item: T): Promise<void> {
+        const validator = await this.getValidator();
+        const issue = validator === undefined ? undefined : validate(validator, item);
+        if (issue) {
+            throw new AurumDBValidationError(index.toString(), issue.path, issue.message);
+        }
+    }
+
+    private getValidator(): Promise<AurumDBValidator<T>> {
+        if (!this.validator) {
+            this.validator = this.readSchema();
+        }
+        return this.validator;
+    }
+
+    private async readSchema(): Promise<AurumDBJsonSchema> {
+        const metadata: AurumDBStructureMetadata = await this.db.get(META_KEY, { valueEncoding: 'json' });
+        return metadata.schema;
+    }
+
+    async toArray(): Promise<T[]> {
+        await this.lock;
+        return this.readRange(0, await this.length());
     }
+
     async forEach(cb: (item: T, index: number) => void): Promise<void> {
         await this.lock;
-        const iterator = new AurumDBIterator<T>(this.db.iterator({}));
+        const iterator = new AurumDBIterator<T>(this.db.iterator({ gte: encodeIndex(0), lt: encodeIndex(await this.length()) }));
         let i = 0;
         while (await iterator.next()) {
             cb(iterator.current.value, i++);
         }
     }
+
+    /**
+     * Collections created before keys were zero padded stored items under plain index.toString() keys. This rewrites such a collection to the current layout in a single batch.
+     * Returns false if the collection already uses the current layout
+     */
+    public migrateLegacyKeys(): Promise<boolean> {
+        return this.withLock(async () => {
+            const len = await this.readLength();
+            if (len === 0 || !(await this.hasKey('0')) || (await this.hasKey(encodeIndex(0)))) {
+                return false;
+            }
+
+            const batch = this.db.batch();
+            for (let i = 0; i < len; i++) {
+                batch.put(encodeIndex(i), await this.db.get(i.toString()));
+                batch.del(i.toString());
+            }
+            await batch.write();
+            return true;
+        });
+    }
+
+    private async hasKey(key: string): Promise<boolean> {
+        try {
+            await this.db.get(key);
+            return true;
+        } catch (e) {
+            if (e.notFound) {
+                return false;
+            } else {
+                throw e;
+            }
+        }
+    }
+
+    private async readRange(startIndex: number, endIndex: number): Promise<T[]> {
+        const items = [];
+        if (startIndex >= endIndex) {
+            return items;
+        }
+        const iterator = new AurumDBIterator<T>(this.db.iterator({ gte: encodeIndex(startIndex), lt: encodeIndex(endIndex) }));
+        while (await iterator.next()) {
+            items.push(iterator.current.value);
+        }
+        return items;
+    }
+}
+
+/**
+ * Read only view of an ordered collection at the time the snapshot was taken, the length always matches the items. Created through AurumDBSnapshot.getOrderedCollection
+ */
+export class AurumDBSnapshotOrderedCollection<T> {
+    private reader: AurumDBSnapshotReader;
+    private keyPrefix: string;
+    private defaultEncoding: Encodings;
+    private cipher: AurumDBCipher;
+
+    constructor(reader: AurumDBSnapshotReader, keyPrefix: string, defaultEncoding?: Encodings, cipher?: AurumDBCipher) {
+        this.reader = reader;
+        this.keyPrefix = keyPrefix;
+        this.defaultEncoding = defaultEncoding;
+        this.cipher = cipher;
+    }
+
+    public async length(): Promise<number> {
+        return decodeSnapshotValue(await this.reader.get(this.keyPrefix + LENGTH_KEY), 'json');
+    }
+
+    public async get(index: number): Promise<T> {
+        if (index < 0 || index >= (await this.length())) {
+            throw new Error('cannot read outside of bounds of array');
+        }
+        return this.decode(encodeIndex(index), await this.reader.get(this.keyPrefix + encodeIndex(index)));
+    }
+
+    public async slice(startIndex: number, endIndex: number): Promise<T[]> {
+        const len = await this.length();
+        if (startIndex > len || startIndex < 0 || endIndex > len || endIndex < 0) {
+            throw new Error('cannot read outside of bounds of array');
+        }
+        const items = [];
+        await this.forRange(startIndex, endIndex, (item) => items.push(item));
+        return items;
+    }
+
+    public async toArray(): Promise<T[]> {
+        return this.slice(0, await this.length());
+    }
+
+    public async forEach(cb: (item: T, index: number) => void): Promise<void> {
+        await this.forRange(0, await this.length(), cb);
+    }
+
+    private async forRange(startIndex: number, endIndex: number, cb: (item: T, index: number) => void): Promise<void> {
+        if (startIndex >= endIndex) {
+            return;
+        }
+        let i = startIndex;
+        for await (const { key, value } of this.reader.entries(this.keyPrefix + encodeIndex(startIndex), this.keyPrefix + encodeIndex(endIndex))) {
+            cb(this.decode(key.substring(this.keyPrefix.length), value), i++);
+        }
+    }
+
+    private decode(key: string, value: Buffer): T {
+        return this.reader.decode(this.cipher ? this.cipher.openEntry(key, value).value : value, this.defaultEncoding);
+    }
 }
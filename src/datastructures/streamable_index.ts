@@ -1,6 +1,15 @@
+import { AbstractBatch } from 'abstract-leveldown';
+import { CancellationToken, DataSource } from 'aurumjs';
+import { createHash } from 'crypto';
 import { ReadStream, WriteStream } from 'fs';
 import * as streamify from 'level-stream-access';
 import { LevelUp } from 'levelup';
+import { Readable, Writable } from 'stream';
+import { META_KEY, SIZE_KEY } from '../constants';
+import { AurumDBQuotaExceededError } from '../errors';
+import { AurumDBIterator } from '../iterator';
+import { AurumDBStructureMetadata, isLegacyMetadata } from '../metadata';
+import { toIteratorBounds } from '../query';
 
 interface StreamableDb {
     createWriteStream(key: string, options?: { append: boolean }): WriteStream;
@@ -11,32 +20,253 @@ interface StreamableDb {
     getMeta: (key: string, callback: (err: Error, value: any) => void) => void;
 }
 
+/**
+ * Chunks written through write and append are keyed by the position of their first byte in hex, padded so leveldb orders them by position.
+ * Records start in the middle of the key space so that prepend has room to place chunks before the first one
+ */
+const OFFSET_WIDTH = 14;
+const INITIAL_OFFSET = 2 ** 48;
+
+/**
+ * Content shared by records of a content addressed index is stored under this prefix followed by its digest, with the same layout as a record
+ */
+const CONTENT_PREFIX = '!!content!!';
+
+interface ContentState {
+    refs: number;
+    size: number;
+}
+
+/**
+ * Stored under the key of every record
+ */
+export interface AurumDBRecordState {
+    state: 'recording' | 'complete';
+    lastChange: number;
+    /**
+     * Total bytes of the record, missing for records written before sizes were tracked
+     */
+    size?: number;
+    /**
+     * Position the first chunk of the record is keyed by, missing for records written before chunks were keyed by position
+     */
+    firstOffset?: number;
+    /**
+     * Hex encoded SHA-256 of the record, computed by write. Removed when the record is appended or prepended to
+     */
+    digest?: string;
+    /**
+     * The chunks are stored once for all records with the same digest instead of under the record key
+     */
+    contentAddressed?: boolean;
+}
+
+/**
+ * Entry of the list returned by AurumDBStreamableIndex.list
+ */
+export interface AurumDBRecordInfo<T> {
+    key: string;
+    state: 'recording' | 'complete';
+    lastChange: number;
+    size: number;
+    digest?: string;
+    /**
+     * Data attached through setMetadata, undefined if there is none
+     */
+    metadata: T;
+}
+
+/**
+ * Result of AurumDBStreamableIndex.verify. Records that are still recording or have no digest can not be valid
+ */
+export interface AurumDBVerifyResult {
+    valid: boolean;
+    state: 'recording' | 'complete';
+    expected: string;
+    actual: string;
+    size: number;
+}
+
+export interface AurumDBReadRange {
+    start?: number;
+    /**
+     * Position of the last byte to read, inclusive like the end of an HTTP range
+     */
+    end?: number;
+}
+
 export class AurumDBStreamableIndex<T> {
     private streamableDb: StreamableDb;
     protected db: LevelUp;
+    private stateObservers: Map<string, DataSource<AurumDBRecordState>[]>;
+    /**
+     * Changes to the total size of the index are made one at a time, the total is loaded by the first of them
+     */
+    private sizeLock: Promise<any>;
+    private totalSize: number;
+    private quota: Promise<number>;
+    private contentAddressed: Promise<boolean>;
 
     constructor(db: LevelUp) {
         this.db = db;
         this.streamableDb = streamify(db);
+        this.stateObservers = new Map();
+        this.sizeLock = Promise.resolve();
+
+        this.db.on('put', (k, v) => this.onKeyChange(k, v));
+        this.db.on('del', (k) => this.onKeyChange(k, undefined));
+        this.db.on('batch', (ops: AbstractBatch[]) => {
+            for (const op of ops) {
+                this.onKeyChange(op.key, op.type === 'put' ? op.value : undefined);
+            }
+        });
+        this.db.on('clear', () => {
+            this.totalSize = undefined;
+            for (const dss of this.stateObservers.values()) {
+                for (const ds of dss) {
+                    ds.update(undefined);
+                }
+            }
+        });
+    }
+
+    private onKeyChange(k: any, v: any): void {
+        if (this.stateObservers.has(k)) {
+            for (const ds of this.stateObservers.get(k)) {
+                ds.update(v);
+            }
+        }
     }
 
     /**
      * Deletes an entire recording including meta data
      */
     public delete(key: string): Promise<void> {
-        this.db.del(key);
-        return new Promise((resolve, reject) => {
-            this.streamableDb.delete(key, (err) => (err ? reject(err) : resolve()));
+        return this.withSizeLock(async (total) => {
+            const freed = await this.release(key);
+            await this.db.del(key);
+            await this.deleteChunks(key);
+            await this.db.put(SIZE_KEY, total - freed, { valueEncoding: 'json' });
+            this.totalSize = total - freed;
+        });
+    }
+
+    /**
+     * Lists the records in key order, optionally only those with keys starting with the prefix. Chunks are skipped without being read
+     */
+    public async list(options: { prefix?: string; limit?: number } = {}): Promise<AurumDBRecordInfo<T>[]> {
+        const bounds = toIteratorBounds({ prefix: options.prefix });
+        const limit = options.limit ?? Infinity;
+        const records: AurumDBRecordInfo<T>[] = [];
+        let cursor = bounds.gte ?? '';
+        while (records.length < limit) {
+            const key = await this.findKeyFrom(cursor, bounds.lt);
+            if (key === undefined) {
+                break;
+            }
+            if (key.startsWith(CONTENT_PREFIX)) {
+                cursor = CONTENT_PREFIX + '\uffff';
+                continue;
+            }
+            // level-stream-access marks every record with a key ending in ' #', the state is stored under the record key right before it
+            if (!key.endsWith(' #')) {
+                cursor = key + ' #';
+                continue;
+            }
+            const recordKey = key.substring(0, key.length - 2);
+            cursor = recordKey + ' :';
+
+            const state = await this.getRecordState(recordKey).catch((): AurumDBRecordState => undefined);
+            records.push({
+                key: recordKey,
+                state: state?.state,
+                lastChange: state?.lastChange,
+                size: state?.size ?? (await this.measure(recordKey)),
+                digest: state?.digest,
+                metadata: (await this.getMetadata(recordKey)) || undefined,
+            });
+        }
+        return records;
+    }
+
+    /**
+     * Sum of the sizes of all records in the index
+     */
+    public getTotalSize(): Promise<number> {
+        return this.withSizeLock(async (total) => total);
+    }
+
+    /**
+     * Streams of write and append error with an AurumDBQuotaExceededError once a chunk would take the total size of the index over the quota. Passing undefined or 0 removes the quota
+     */
+    public setQuota(bytes: number): Promise<void> {
+        return this.withSizeLock(async () => {
+            const metadata: AurumDBStructureMetadata = await this.db.get(META_KEY, { valueEncoding: 'json' });
+            await this.db.put(META_KEY, { ...metadata, quota: bytes || undefined }, { valueEncoding: 'json' });
+            this.quota = Promise.resolve(bytes || undefined);
+        });
+    }
+
+    public getQuota(): Promise<number> {
+        if (!this.quota) {
+            this.quota = this.db.get(META_KEY, { valueEncoding: 'json' }).then(
+                (metadata) => (isLegacyMetadata(metadata) ? undefined : metadata.quota),
+                () => undefined
+            );
+        }
+        return this.quota;
+    }
+
+    /**
+     * Records written while enabled share their chunks with every other record of the same digest, the chunks are deleted with the last of these records.
+     * Records sharing their content can not be appended or prepended to. Records written before are not affected
+     */
+    public setContentAddressed(enabled: boolean): Promise<void> {
+        return this.withSizeLock(async () => {
+            const metadata: AurumDBStructureMetadata = await this.db.get(META_KEY, { valueEncoding: 'json' });
+            await this.db.put(META_KEY, { ...metadata, contentAddressed: enabled || undefined }, { valueEncoding: 'json' });
+            this.contentAddressed = Promise.resolve(enabled);
         });
     }
 
+    public isContentAddressed(): Promise<boolean> {
+        if (!this.contentAddressed) {
+            this.contentAddressed = this.db.get(META_KEY, { valueEncoding: 'json' }).then(
+                (metadata) => !isLegacyMetadata(metadata) && !!metadata.contentAddressed,
+                () => false
+            );
+        }
+        return this.contentAddressed;
+    }
+
+    /**
+     * Reads the record and compares it to the digest computed when it was written
+     */
+    public async verify(key: string): Promise<AurumDBVerifyResult> {
+        const state = await this.getRecordState(key);
+        const hash = createHash('sha256');
+        let size = 0;
+        for await (const chunk of this.readChunks(key, 0, Infinity)) {
+            hash.update(chunk);
+            size += chunk.length;
+        }
+        const actual = hash.digest('hex');
+        return {
+            valid: state.state === 'complete' && state.digest === actual && (state.size === undefined || state.size === size),
+            state: state.state,
+            expected: state.digest,
+            actual,
+            size,
+        };
+    }
+
     public has(key: string): Promise<boolean> {
         return new Promise((resolve) => {
             this.db.get(key, (err) => resolve(!err));
         });
     }
 
-    public getRecordState(key: string): Promise<{ state: 'recording' | 'complete'; lastChange: number }> {
+    public getRecordState(key: string): Promise<AurumDBRecordState> {
         return new Promise((resolve, reject) => {
             this.db.get(
                 key,
@@ -48,41 +278,178 @@ export class AurumDBStreamableIndex<T> {
         });
     }
 
-    public append(key: string): WriteStream {
-        return this.streamableDb.createWriteStream(key);
+    /**
+     * Adds to the end of a record without changing its state. Records written before chunks were keyed by position are started over
+     */
+    public append(key: string): Writable {
+        return new RecordWriteStream(new RecordWriter(this.prepareAppend(key), (state, data) => this.writeChunk(key, state, data)));
     }
 
-    public async write(key: string): Promise<WriteStream> {
-        await this.db.put(
-            key,
-            { state: 'recording', lastChange: Date.now() },
-            {
-                valueEncoding: 'json',
-            }
-        );
-        const s = this.streamableDb.createWriteStream(key, { append: false });
-        s.on('close', () => {
-            this.db.put(
-                key,
-                { state: 'complete', lastChange: Date.now() },
-                {
-                    valueEncoding: 'json',
+    /**
+     * Replaces the record, which is in the recording state until the stream is closed. The digest of the record is stored when it completes
+     */
+    public async write(key: string): Promise<Writable> {
+        return new RecordWriteStream(await this.startWriting(key));
+    }
+
+    /**
+     * Replaces the record with the data, which is written chunk by chunk when it is an async iterable. Resolves once the record is complete.
+     * If the iterable or a write throws the record stays recording with the chunks written so far, and the error is rethrown
+     */
+    public async put(key: string, data: Buffer | Uint8Array | AsyncIterable<Uint8Array>): Promise<void> {
+        const writer = await this.startWriting(key);
+        for await (const chunk of data instanceof Uint8Array ? [data] : data) {
+            await writer.write(toBuffer(chunk));
+        }
+        await writer.complete();
+    }
+
+    /**
+     * WHATWG counterpart of write, requires Node 18 or later. Only closing the stream completes the record, an aborted or errored stream leaves it recording
+     */
+    public async writableStream(key: string): Promise<WritableStream<Uint8Array>> {
+        assertWebStreams();
+        const writer = await this.startWriting(key);
+        return new WritableStream<Uint8Array>({
+            write: (chunk) => writer.write(toBuffer(chunk)),
+            close: () => writer.complete(),
+            abort: () => writer.abandon(),
+        });
+    }
+
+    public async getBuffer(key: string, range?: AurumDBReadRange): Promise<Buffer> {
+        await this.getRecordState(key);
+        const chunks: Buffer[] = [];
+        for await (const chunk of this.readIterable(key, range)) {
+            chunks.push(chunk);
+        }
+        return Buffer.concat(chunks);
+    }
+
+    /**
+     * Same as read for use with for await
+     */
+    public readIterable(key: string, range?: AurumDBReadRange): AsyncIterable<Buffer> {
+        return this.readChunks(key, range?.start ?? 0, range?.end ?? Infinity);
+    }
+
+    /**
+     * WHATWG counterpart of read, requires Node 18 or later
+     */
+    public readableStream(key: string, range?: AurumDBReadRange): ReadableStream<Uint8Array> {
+        assertWebStreams();
+        const chunks = this.readChunks(key, range?.start ?? 0, range?.end ?? Infinity);
+        return new ReadableStream<Uint8Array>({
+            pull: async (controller) => {
+                const { value, done } = await chunks.next();
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value as Buffer);
                 }
-            );
+            },
+            cancel: async () => {
+                await chunks.return(undefined);
+            },
+        });
+    }
+
+    /**
+     * Streams the record or the bytes from start to end of it. The read starts at the chunk containing start, so reading the end of a large record does not read the beginning
+     */
+    public read(key: string, range?: AurumDBReadRange): Readable {
+        return Readable.from(this.readIterable(key, range), { objectMode: false });
+    }
+
+    /**
+     * Streams the record and keeps following the chunks written to it until the record is complete, for example to broadcast a recording while it is being written.
+     * Chunks prepended while following are not included
+     */
+    public tail(key: string): Readable {
+        const token = new CancellationToken();
+        const chunks = this.followChunks(key, token);
+        return new Readable({
+            read() {
+                chunks.next().then(
+                    ({ value, done }) => this.push(done ? null : value),
+                    (e) => this.destroy(e)
+                );
+            },
+            // Cancelling first ends a wait for the next change, the generator can only return once it is not waiting
+            destroy(error, callback) {
+                token.cancel();
+                chunks.return(undefined).then(() => callback(error), callback);
+            },
         });
-        return s;
     }
 
-    public read(key: string): ReadStream {
-        return this.streamableDb.createReadStream(key);
+    /**
+     * Updated whenever the record is written to, changes state or is deleted. The value is undefined while the record does not exist
+     */
+    public async observeRecordState(key: string, cancellationToken: CancellationToken): Promise<DataSource<AurumDBRecordState>> {
+        const ds = new DataSource<AurumDBRecordState>();
+        if (!this.stateObservers.has(key)) {
+            this.stateObservers.set(key, []);
+        }
+        this.stateObservers.get(key).push(ds);
+        cancellationToken.addCancelable(() => {
+            const dss = this.stateObservers.get(key);
+            const index = dss.indexOf(ds);
+            if (index !== -1) {
+                dss.splice(index, 1);
+            }
+            if (!dss.length) {
+                this.stateObservers.delete(key);
+            }
+        });
+
+        // Observing before reading means no change is missed, a change that arrived while reading is newer than what was read
+        const state = await this.getRecordState(key).catch((): AurumDBRecordState => undefined);
+        if (ds.value === undefined) {
+            ds.update(state);
+        }
+        return ds;
+    }
+
+    /**
+     * Total bytes of the record. Records written before sizes were tracked are measured by reading their chunks
+     */
+    public async size(key: string): Promise<number> {
+        const state = await this.getRecordState(key);
+        return state.size ?? this.measure(key);
     }
 
     /**
      * Prepends a binary chunk at the start of an existing record
      */
     public prepend(key: string, data: Buffer): Promise<void> {
-        return new Promise((resolve, reject) => {
-            this.streamableDb.prepend(key, data, (err) => (err ? reject(err) : resolve()));
+        return this.withSizeLock(async (total) => {
+            const state = await this.getRecordState(key).catch((): AurumDBRecordState => undefined);
+            assertNotShared(key, state);
+            if (state?.firstOffset === undefined) {
+                // level-stream-access reports whether there was a chunk to prepend to
+                const prepended = await new Promise<boolean>((resolve, reject) => {
+                    const done = (err: Error, written?: boolean) => (err ? reject(err) : resolve(written));
+                    this.streamableDb.prepend(key, data, done);
+                });
+                if (prepended) {
+                    await this.db.put(SIZE_KEY, total + data.length, { valueEncoding: 'json' });
+                    this.totalSize = total + data.length;
+                }
+                return;
+            }
+            const firstOffset = state.firstOffset - data.length;
+            await this.db.batch([
+                { type: 'put', key: makeChunkKey(key, firstOffset), value: data, valueEncoding: 'binary' } as AbstractBatch,
+                {
+                    type: 'put',
+                    key,
+                    value: { ...state, firstOffset, size: state.size + data.length, digest: undefined },
+                    valueEncoding: 'json',
+                } as AbstractBatch,
+                { type: 'put', key: SIZE_KEY, value: total + data.length, valueEncoding: 'json' } as AbstractBatch,
+            ]);
+            this.totalSize = total + data.length;
         });
     }
 
@@ -103,4 +470,395 @@ export class AurumDBStreamableIndex<T> {
             this.streamableDb.getMeta(key, (err, value) => (err ? reject(err) : resolve(value)));
         });
     }
+
+    /**
+     * Deletes the chunks of the record and stores the state and the marker level-stream-access recognizes records by
+     */
+    private startRecord(key: string, state: AurumDBRecordState['state']): Promise<AurumDBRecordState> {
+        return this.withSizeLock(async (total) => {
+            const previousSize = await this.release(key);
+            await this.deleteChunks(key);
+            const recordState: AurumDBRecordState = { state, lastChange: Date.now(), size: 0, firstOffset: INITIAL_OFFSET };
+            await this.db.batch([
+                { type: 'put', key, value: recordState, valueEncoding: 'json' } as AbstractBatch,
+                { type: 'put', key: key + ' #', value: { created: Date.now() }, valueEncoding: 'json' } as AbstractBatch,
+                { type: 'put', key: SIZE_KEY, value: total - previousSize, valueEncoding: 'json' } as AbstractBatch,
+            ]);
+            this.totalSize = total - previousSize;
+            return recordState;
+        });
+    }
+
+    /**
+     * Writes the chunk at the end of the record along with the new size of the record and of the index
+     */
+    private writeChunk(key: string, state: AurumDBRecordState, data: Buffer): Promise<AurumDBRecordState> {
+        return this.withSizeLock(async (total) => {
+            const quota = await this.getQuota();
+            if (quota !== undefined && total + data.length > quota) {
+                throw new AurumDBQuotaExceededError(key, quota, total + data.length);
+            }
+            const next: AurumDBRecordState = { ...state, lastChange: Date.now(), size: state.size + data.length, digest: undefined };
+            await this.db.batch([
+                { type: 'put', key: makeChunkKey(key, state.firstOffset + state.size), value: data, valueEncoding: 'binary' } as AbstractBatch,
+                { type: 'put', key, value: next, valueEncoding: 'json' } as AbstractBatch,
+                { type: 'put', key: SIZE_KEY, value: total + data.length, valueEncoding: 'json' } as AbstractBatch,
+            ]);
+            this.totalSize = total + data.length;
+            return next;
+        });
+    }
+
+    /**
+     * Starts the record in the recording state, the writer computes the digest of the chunks and completes the record with it
+     */
+    private async startWriting(key: string): Promise<RecordWriter> {
+        const state = await this.startRecord(key, 'recording');
+        const hash = createHash('sha256');
+        return new RecordWriter(
+            Promise.resolve(state),
+            async (state, data) => {
+                const next = await this.writeChunk(key, state, data);
+                hash.update(data);
+                return next;
+            },
+            (state) => this.completeRecord(key, state, hash.digest('hex'))
+        );
+    }
+
+    /**
+     * Marks the record complete. In a content addressed index the chunks are then handed over to the content of the digest, or dropped if that content exists already
+     */
+    private completeRecord(key: string, state: AurumDBRecordState, digest: string): Promise<void> {
+        return this.withSizeLock(async (total) => {
+            const complete: AurumDBRecordState = { ...state, state: 'complete', lastChange: Date.now(), digest };
+            if (!(await this.isContentAddressed())) {
+                await this.db.put(key, complete, { valueEncoding: 'json' });
+                return;
+            }
+
+            const contentKey = CONTENT_PREFIX + digest;
+            const content: ContentState = await this.db.get(contentKey, { valueEncoding: 'json' }).catch((): ContentState => undefined);
+            if (content) {
+                await this.db.batch([
+                    { type: 'put', key: contentKey, value: { ...content, refs: content.refs + 1 }, valueEncoding: 'json' } as AbstractBatch,
+                    { type: 'put', key, value: { ...complete, contentAddressed: true }, valueEncoding: 'json' } as AbstractBatch,
+                    { type: 'put', key: SIZE_KEY, value: total - state.size, valueEncoding: 'json' } as AbstractBatch,
+                ]);
+                this.totalSize = total - state.size;
+            } else {
+                // Copied before the record points to the content, so the record can be read at any time
+                await this.copyChunks(key, contentKey);
+                await this.db.batch([
+                    { type: 'put', key: contentKey, value: { refs: 1, size: state.size }, valueEncoding: 'json' } as AbstractBatch,
+                    { type: 'put', key, value: { ...complete, contentAddressed: true }, valueEncoding: 'json' } as AbstractBatch,
+                ]);
+            }
+            await this.removeChunks(key);
+        });
+    }
+
+    /**
+     * Drops the reference of the record to its content, returns the bytes that are freed once the chunks of the record are deleted
+     */
+    private async release(key: string): Promise<number> {
+        const state = await this.getRecordState(key).catch((): AurumDBRecordState => undefined);
+        if (!state?.contentAddressed) {
+            return this.size(key).catch(() => 0);
+        }
+        const contentKey = CONTENT_PREFIX + state.digest;
+        const content: ContentState = await this.db.get(contentKey, { valueEncoding: 'json' });
+        if (content.refs > 1) {
+            await this.db.put(contentKey, { ...content, refs: content.refs - 1 }, { valueEncoding: 'json' });
+            return 0;
+        }
+        await this.db.del(contentKey);
+        await this.removeChunks(contentKey);
+        return content.size;
+    }
+
+    private async copyChunks(from: string, to: string): Promise<void> {
+        const iterator = new AurumDBIterator<Buffer>(this.db.iterator({ gt: from + ' /', lt: from + ' :', valueEncoding: 'binary' }));
+        while (await iterator.next()) {
+            const { key, value } = iterator.current;
+            await this.db.put(to + key.substring(from.length), value, { valueEncoding: 'binary' });
+        }
+    }
+
+    /**
+     * Unlike deleteChunks this keeps the marker and metadata of the record
+     */
+    private async removeChunks(key: string): Promise<void> {
+        const iterator = new AurumDBIterator<any>(this.db.iterator({ gt: key + ' /', lt: key + ' :', values: false }));
+        const ops: AbstractBatch[] = [];
+        while (await iterator.next()) {
+            ops.push({ type: 'del', key: iterator.current.key });
+        }
+        await this.db.batch(ops);
+    }
+
+    private withSizeLock<R>(operation: (total: number) => Promise<R>): Promise<R> {
+        const result = this.sizeLock.then(async () => operation(await this.loadTotalSize()));
+        this.sizeLock = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Indexes that did not track their total size yet are measured once
+     */
+    private async loadTotalSize(): Promise<number> {
+        if (this.totalSize === undefined) {
+            try {
+                this.totalSize = await this.db.get(SIZE_KEY, { valueEncoding: 'json' });
+            } catch (e) {
+                if (!e.notFound) {
+                    throw e;
+                }
+                let total = 0;
+                for (const record of await this.list()) {
+                    total += record.size;
+                }
+                // Records sharing their content were counted by the size of the content, once per record
+                for (const content of await this.listContents()) {
+                    total -= (content.refs - 1) * content.size;
+                }
+                await this.db.put(SIZE_KEY, total, { valueEncoding: 'json' });
+                this.totalSize = total;
+            }
+        }
+        return this.totalSize;
+    }
+
+    private async listContents(): Promise<ContentState[]> {
+        const iterator = new AurumDBIterator<any>(this.db.iterator({ gt: CONTENT_PREFIX, lt: CONTENT_PREFIX + '\uffff', values: false }));
+        const keys: string[] = [];
+        while (await iterator.next()) {
+            if (!iterator.current.key.includes(' ')) {
+                keys.push(iterator.current.key);
+            }
+        }
+        return Promise.all(keys.map((key): Promise<ContentState> => this.db.get(key, { valueEncoding: 'json' })));
+    }
+
+    private deleteChunks(key: string): Promise<void> {
+        return new Promise<void>((resolve, reject) => this.streamableDb.delete(key, (err) => (err ? reject(err) : resolve())));
+    }
+
+    private async measure(key: string): Promise<number> {
+        let size = 0;
+        for await (const chunk of this.readChunks(key, 0, Infinity)) {
+            size += chunk.length;
+        }
+        return size;
+    }
+
+    /**
+     * Not limited to a single key as the iterator skips the meta key
+     */
+    private async findKeyFrom(cursor: string, lt: string): Promise<string> {
+        const iterator = new AurumDBIterator<any>(this.db.iterator({ gte: cursor, ...(lt === undefined ? {} : { lt }), values: false }));
+        const entry = await iterator.next();
+        if (entry) {
+            await iterator.end();
+        }
+        return entry?.key;
+    }
+
+    private async prepareAppend(key: string): Promise<AurumDBRecordState> {
+        const state = await this.getRecordState(key).catch((): AurumDBRecordState => undefined);
+        assertNotShared(key, state);
+        if (state?.firstOffset !== undefined) {
+            return state;
+        }
+        return this.startRecord(key, state?.state ?? 'complete');
+    }
+
+    /**
+     * Yields the bytes from start to end, inclusive. Records keyed by position are read from the chunk containing start, older records from their first chunk
+     */
+    private async *readChunks(key: string, start: number, end: number): AsyncGenerator<Buffer> {
+        const state = await this.getRecordState(key).catch((): AurumDBRecordState => undefined);
+        const source = getChunkSource(key, state);
+        let position = 0;
+        let chunkKey: string;
+        if (state?.firstOffset !== undefined && start > 0) {
+            chunkKey = await this.findChunkKey(source, state.firstOffset + start);
+            if (chunkKey !== undefined) {
+                position = parseInt(chunkKey.substring(source.length + 1), 16) - state.firstOffset;
+            }
+        }
+
+        // Chunk keys sort between the ' /' and ' :' suffixes, after the marker and metadata of the record
+        const bounds = chunkKey === undefined ? { gt: source + ' /' } : { gte: chunkKey };
+        const iterator = new AurumDBIterator<Buffer>(this.db.iterator({ ...bounds, lt: source + ' :', valueEncoding: 'binary' }));
+        try {
+            while (position <= end && (await iterator.next())) {
+                const chunk = iterator.current.value;
+                const slice = chunk.subarray(Math.max(0, start - position), Math.min(chunk.length, end - position + 1));
+                position += chunk.length;
+                if (slice.length) {
+                    yield slice;
+                }
+            }
+        } finally {
+            if (iterator.current) {
+                await iterator.end();
+            }
+        }
+    }
+
+    /**
+     * Reads the chunks written after the cursor whenever the state of the record changes, every chunk written comes with such a change.
+     * Cancels the token once the record is done, a wait for the next change of the record ends as soon as the token is cancelled
+     */
+    private async *followChunks(key: string, cancellationToken: CancellationToken): AsyncGenerator<Buffer> {
+        try {
+            const state = await this.observeRecordState(key, cancellationToken);
+            if (state.value === undefined) {
+                throw new Error(`Record ${key} does not exist`);
+            }
+            const cancelled = new Promise<void>((resolve) => (cancellationToken.isCanceled ? resolve() : cancellationToken.addCancelable(resolve)));
+            // Suffix of the last chunk read, chunks keep their suffix when they are handed over to shared content
+            let cursor = '/';
+            while (!cancellationToken.isCanceled && state.value !== undefined) {
+                const changed = state.awaitNextUpdate(cancellationToken);
+                const complete = state.value.state === 'complete';
+                const source = getChunkSource(key, state.value);
+
+                const iterator = new AurumDBIterator<Buffer>(this.db.iterator({ gt: `${source} ${cursor}`, lt: source + ' :', valueEncoding: 'binary' }));
+                try {
+                    while (await iterator.next()) {
+                        cursor = iterator.current.key.substring(source.length + 1);
+                        yield iterator.current.value;
+                    }
+                } finally {
+                    if (iterator.current) {
+                        await iterator.end();
+                    }
+                }
+
+                if (complete) {
+                    return;
+                }
+                await Promise.race([changed, cancelled]);
+            }
+        } finally {
+            cancellationToken.cancel();
+        }
+    }
+
+    /**
+     * Finds the chunk containing the byte keyed by the offset
+     */
+    private async findChunkKey(key: string, offset: number): Promise<string> {
+        const iterator = new AurumDBIterator<any>(this.db.iterator({ gt: key + ' /', lte: makeChunkKey(key, offset), reverse: true, limit: 1, values: false }));
+        const entry = await iterator.next();
+        if (entry) {
+            await iterator.end();
+        }
+        return entry?.key;
+    }
+}
+
+function makeChunkKey(key: string, offset: number): string {
+    return `${key} ${offset.toString(16).padStart(OFFSET_WIDTH, '0')}`;
+}
+
+/**
+ * Key the chunks of the record are stored under
+ */
+function getChunkSource(key: string, state: AurumDBRecordState): string {
+    return state?.contentAddressed ? CONTENT_PREFIX + state.digest : key;
+}
+
+function assertNotShared(key: string, state: AurumDBRecordState): void {
+    if (state?.contentAddressed) {
+        throw new Error(`Record ${key} shares its content with other records and can only be replaced through write`);
+    }
+}
+
+function toBuffer(chunk: Uint8Array): Buffer {
+    return Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+}
+
+/**
+ * The WHATWG streams are globals from Node 18 on
+ */
+function assertWebStreams(): void {
+    if (typeof ReadableStream === 'undefined' || typeof WritableStream === 'undefined') {
+        throw new Error(`WHATWG streams require Node 18 or later, this is Node ${process.versions.node}`);
+    }
+}
+
+/**
+ * Writes chunks one after another through writeChunk, which stores the chunk together with the updated size of the record. Writers of write mark the record complete when they complete
+ */
+class RecordWriter {
+    public state: Promise<AurumDBRecordState>;
+    private writeChunk: (state: AurumDBRecordState, data: Buffer) => Promise<AurumDBRecordState>;
+    private onComplete: (state: AurumDBRecordState) => Promise<void>;
+
+    constructor(
+        state: Promise<AurumDBRecordState>,
+        writeChunk: (state: AurumDBRecordState, data: Buffer) => Promise<AurumDBRecordState>,
+        onComplete?: (state: AurumDBRecordState) => Promise<void>
+    ) {
+        this.state = state;
+        this.writeChunk = writeChunk;
+        this.onComplete = onComplete;
+    }
+
+    public async write(data: Buffer): Promise<void> {
+        if (!data.length) {
+            return;
+        }
+        const previous = this.state;
+        const written = previous.then((state) => this.writeChunk(state, data));
+        // A chunk that could not be written leaves the record as it was
+        this.state = written.catch(() => previous);
+        await written;
+    }
+
+    /**
+     * Only the first call completes the record
+     */
+    public complete(): Promise<void> {
+        const onComplete = this.onComplete;
+        this.onComplete = undefined;
+        return onComplete ? this.state.then(onComplete) : Promise.resolve();
+    }
+
+    /**
+     * Leaves the record recording without a digest, a later complete does nothing
+     */
+    public abandon(): void {
+        this.onComplete = undefined;
+    }
+}
+
+class RecordWriteStream extends Writable {
+    private writer: RecordWriter;
+
+    constructor(writer: RecordWriter) {
+        super();
+        this.writer = writer;
+        writer.state.catch((e) => this.destroy(e));
+    }
+
+    public _write(chunk: Buffer | string, encoding: BufferEncoding, callback: (err?: Error) => void): void {
+        const data = typeof chunk === 'string' ? Buffer.from(chunk, encoding) : chunk;
+        this.writer.write(data).then(() => callback(), callback);
+    }
+
+    public _final(callback: (err?: Error) => void): void {
+        this.writer.complete().then(() => callback(), callback);
+    }
+
+    /**
+     * Runs after _final on a normal finish, otherwise the data is partial and the record is not completed
+     */
+    public _destroy(err: Error, callback: (err?: Error) => void): void {
+        this.writer.abandon();
+        callback(err);
+    }
 }
@@ -0,0 +1,444 @@
+import { AbstractBatch, AbstractIterator, AbstractIteratorOptions, AbstractLevelDOWN, ErrorCallback } from 'abstract-leveldown';
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import * as encoding from 'encoding-down';
+import { LevelEncoding } from './codecs/registry';
+import { Encodings } from './leveldb';
+
+/**
+ * Supplies the keys values are encrypted with. Every encrypted value carries the id of its key, so after changing the current key older keys still have to be returned until AurumDB.rotateEncryptionKey re-encrypted everything
+ */
+export interface AurumDBKeyProvider {
+    /**
+     * Id of the key new values are encrypted with, at most 255 bytes
+     */
+    currentKeyId(): string;
+    /**
+     * Returns the 32 byte AES-256 key with the id
+     */
+    getKey(keyId: string): Buffer;
+    /**
+     * Secret keys are hashed with, required when keys are hashed. Changing it makes all hashed keys unreachable
+     */
+    getHashKey?(): Buffer;
+}
+
+export interface AurumDBEncryptionConfig {
+    keyProvider: AurumDBKeyProvider;
+    /**
+     * Stores the keys of indexes as HMAC-SHA256 hashes. The original key is kept inside the encrypted value so iterators still return it, but key order is lost: range reads scan the entire index and return entries in no particular order
+     */
+    hashKeys?: boolean;
+}
+
+/**
+ * Passed when creating a structure to override the encryption config of the database. false stores the structure in plain text
+ */
+export type AurumDBStructureEncryption = boolean | { hashKeys?: boolean };
+
+const FORMAT_VERSION = 1;
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * AES-256-GCM encryption of the entries of a single structure. The key an entry is stored under is authenticated along with the value, so values can not be moved to a different key.
+ * Sealed values consist of a format version, the length and id of the key, the iv, the auth tag and the ciphertext. With hashed keys the ciphertext starts with the original key
+ */
+export class AurumDBCipher {
+    public readonly hashKeys: boolean;
+    private keyProvider: AurumDBKeyProvider;
+
+    constructor(keyProvider: AurumDBKeyProvider, hashKeys: boolean = false) {
+        if (hashKeys && !keyProvider.getHashKey) {
+            throw new Error('Hashing keys requires a key provider with getHashKey');
+        }
+        this.keyProvider = keyProvider;
+        this.hashKeys = hashKeys;
+    }
+
+    public toStorageKey(key: string): string {
+        return this.hashKeys ? createHmac('sha256', this.keyProvider.getHashKey()).update(key).digest('hex') : key;
+    }
+
+    public sealEntry(key: string, value: Buffer): Buffer {
+        if (!this.hashKeys) {
+            return this.seal(key, value);
+        }
+        const keyBytes = Buffer.from(key, 'utf8');
+        const keyLength = Buffer.alloc(4);
+        keyLength.writeUInt32BE(keyBytes.length, 0);
+        return this.seal(this.toStorageKey(key), Buffer.concat([keyLength, keyBytes, value]));
+    }
+
+    public openEntry(storageKey: string, sealed: Buffer): { key: string; value: Buffer } {
+        const plaintext = this.open(storageKey, sealed);
+        if (!this.hashKeys) {
+            return { key: storageKey, value: plaintext };
+        }
+        const keyLength = plaintext.readUInt32BE(0);
+        return { key: plaintext.toString('utf8', 4, 4 + keyLength), value: plaintext.subarray(4 + keyLength) };
+    }
+
+    /**
+     * Encrypts the value again with the current key, returns undefined if it already is
+     */
+    public reseal(storageKey: string, sealed: Buffer): Buffer {
+        if (readKeyId(sealed) === this.keyProvider.currentKeyId()) {
+            return undefined;
+        }
+        return this.seal(storageKey, this.open(storageKey, sealed));
+    }
+
+    private seal(storageKey: string, plaintext: Buffer): Buffer {
+        const keyId = Buffer.from(this.keyProvider.currentKeyId(), 'utf8');
+        if (keyId.length > 0xff) {
+            throw new Error('Encryption key ids can not be longer than 255 bytes');
+        }
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv(ALGORITHM, this.getKey(keyId.toString('utf8')), iv, { authTagLength: TAG_LENGTH });
+        cipher.setAAD(Buffer.from(storageKey, 'utf8'));
+        const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+        return Buffer.concat([Buffer.from([FORMAT_VERSION, keyId.length]), keyId, iv, cipher.getAuthTag(), ciphertext]);
+    }
+
+    private open(storageKey: string, sealed: Buffer): Buffer {
+        if (sealed[0] !== FORMAT_VERSION) {
+            throw new Error(`Value of ${storageKey} is not encrypted in a known format`);
+        }
+        const keyId = readKeyId(sealed);
+        const ivStart = 2 + sealed[1];
+        const tagStart = ivStart + IV_LENGTH;
+        const decipher = createDecipheriv(ALGORITHM, this.getKey(keyId), sealed.subarray(ivStart, tagStart), { authTagLength: TAG_LENGTH });
+        decipher.setAAD(Buffer.from(storageKey, 'utf8'));
+        decipher.setAuthTag(sealed.subarray(tagStart, tagStart + TAG_LENGTH));
+        try {
+            return Buffer.concat([decipher.update(sealed.subarray(tagStart + TAG_LENGTH)), decipher.final()]);
+        } catch (e) {
+            throw new Error(`Value of ${storageKey} could not be decrypted with key ${keyId}`);
+        }
+    }
+
+    private getKey(keyId: string): Buffer {
+        const key = this.keyProvider.getKey(keyId);
+        if (!key || key.length !== KEY_LENGTH) {
+            throw new Error(`Encryption key ${keyId} must be ${KEY_LENGTH} bytes`);
+        }
+        return key;
+    }
+}
+
+function readKeyId(sealed: Buffer): string {
+    return sealed.toString('utf8', 2, 2 + sealed[1]);
+}
+
+/**
+ * Creates the layers of an encrypted structure on top of its subleveldown layer, returns the encoding layer to wrap in levelup. Encryption happens below the encoding, so every value written through the sub db is encrypted whatever encoding it is written with, and events, observers and iterators see plain text.
+ * Keys for which isPlainKey returns true, such as the metadata and the keys of nested structures, are stored as they are
+ */
+export function openEncryptedSubDb(
+    down: any,
+    valueEncoding: Encodings | LevelEncoding,
+    cipher: AurumDBCipher,
+    isPlainKey: (key: string) => boolean
+): { db: AbstractLevelDOWN; storage: AurumDBEncryptedStorage } {
+    const storage = new AurumDBEncryptedStorage(down, cipher, isPlainKey);
+    const encoded = encoding(storage, { valueEncoding });
+    storage.codec = encoded.codec;
+    return { db: encoded, storage };
+}
+
+/**
+ * Clears by deleting key by key through the iterator, the default of abstract-leveldown that its typings leave out
+ */
+const defaultClear: (this: AbstractLevelDOWN, options: AbstractIteratorOptions, callback: ErrorCallback) => void = (
+    AbstractLevelDOWN.prototype as unknown as {
+        _clear: (options: AbstractIteratorOptions, callback: ErrorCallback) => void;
+    }
+)._clear;
+
+/**
+ * The abstract-leveldown layer that encrypts values and hashes keys, sitting between the encoding of a sub db and the prefixing of subleveldown
+ */
+export class AurumDBEncryptedStorage extends AbstractLevelDOWN {
+    public readonly type = 'aurum-db-encryption';
+    /**
+     * The codec of the encoding layer above, used to encode the values of batches that are written to the root database directly
+     */
+    public codec: { encodeValue(value: any, options?: any): any };
+    /**
+     * Named db like the inner database of the other layers, so subleveldown finds the prefix of this sub db when a nested structure is created on top of it
+     */
+    private db: any;
+    private cipher: AurumDBCipher;
+    private isPlainKey: (key: string) => boolean;
+    private pendingWrites: Set<Promise<void>>;
+    private rotating: Promise<void>;
+
+    constructor(db: any, cipher: AurumDBCipher, isPlainKey: (key: string) => boolean) {
+        super(undefined);
+        this.db = db;
+        this.cipher = cipher;
+        this.isPlainKey = isPlainKey;
+        this.pendingWrites = new Set();
+    }
+
+    public get hashesKeys(): boolean {
+        return this.cipher.hashKeys;
+    }
+
+    public toStorageKey(key: string): string {
+        return this.isPlainKey(key) ? key : this.cipher.toStorageKey(key);
+    }
+
+    /**
+     * Turns a batch of the sub db into one that can be written to the root database directly, without going through the encoding and encryption of the sub db.
+     * The caller has to make sure no key rotation runs at the same time
+     */
+    public sealBatch(ops: AbstractBatch[]): AbstractBatch[] {
+        return ops.map((op) => {
+            const key = String(op.key);
+            if (op.type === 'del') {
+                return { type: 'del', key: this.toStorageKey(key) };
+            }
+            return {
+                type: 'put',
+                key: this.toStorageKey(key),
+                value: this.sealValue(key, this.codec.encodeValue(op.value, op)),
+                valueEncoding: 'binary',
+            } as AbstractBatch;
+        });
+    }
+
+    /**
+     * Re-encrypts every value that was not encrypted with the current key, reading and writing batchSize entries at a time. Writes through the sub db wait while a batch is being rewritten.
+     * Each batch is run through lock, which allows holding the lock of the structure as well
+     */
+    public async rotate(batchSize: number, lock: <R>(step: () => Promise<R>) => Promise<R>): Promise<number> {
+        let cursor: string;
+        let rotated = 0;
+        let done = false;
+        while (!done) {
+            await lock(() =>
+                this.lockForRotation(async () => {
+                    const entries = await this.readRaw(cursor, batchSize);
+                    done = entries.length < batchSize;
+                    cursor = entries[entries.length - 1]?.key;
+
+                    const ops: AbstractBatch[] = [];
+                    for (const { key, value } of entries) {
+                        const resealed = this.isPlainKey(key) ? undefined : this.cipher.reseal(key, value);
+                        if (resealed) {
+                            ops.push({ type: 'put', key, value: resealed });
+                        }
+                    }
+                    if (ops.length) {
+                        await new Promise<void>((resolve, reject) => this.db.batch(ops, {}, (err) => (err ? reject(err) : resolve())));
+                    }
+                    rotated += ops.length;
+                })
+            );
+        }
+        return rotated;
+    }
+
+    protected _open(options: any, callback: ErrorCallback): void {
+        this.db.open(options, callback);
+    }
+
+    protected _close(callback: ErrorCallback): void {
+        this.db.close(callback);
+    }
+
+    protected _get(key: any, options: any, callback: (err: any, value?: any) => void): void {
+        key = String(key);
+        const storageKey = this.toStorageKey(key);
+        this.db.get(storageKey, { ...options, asBuffer: true }, (err, raw: Buffer) => {
+            if (err) {
+                return callback(err);
+            }
+            let value: Buffer;
+            try {
+                value = this.openValue(storageKey, raw).value;
+            } catch (e) {
+                return callback(e);
+            }
+            callback(undefined, options.asBuffer ? value : value.toString('utf8'));
+        });
+    }
+
+    protected _put(key: any, value: any, options: any, callback: ErrorCallback): void {
+        key = String(key);
+        this.write((done) => {
+            let sealed: Buffer;
+            try {
+                sealed = this.sealValue(key, value);
+            } catch (e) {
+                return done(e);
+            }
+            this.db.put(this.toStorageKey(key), sealed, options, done);
+        }, callback);
+    }
+
+    protected _del(key: any, options: any, callback: ErrorCallback): void {
+        key = String(key);
+        this.write((done) => this.db.del(this.toStorageKey(key), options, done), callback);
+    }
+
+    protected _batch(ops: AbstractBatch[], options: any, callback: ErrorCallback): void {
+        this.write((done) => {
+            let sealed: AbstractBatch[];
+            try {
+                sealed = ops.map((op) => {
+                    const key = String(op.key);
+                    return op.type === 'del'
+                        ? { type: 'del', key: this.toStorageKey(key) }
+                        : { type: 'put', key: this.toStorageKey(key), value: this.sealValue(key, op.value) };
+                });
+            } catch (e) {
+                return done(e);
+            }
+            this.db.batch(sealed, options, done);
+        }, callback);
+    }
+
+    protected _clear(options: any, callback: ErrorCallback): void {
+        if (this.cipher.hashKeys) {
+            // Range bounds refer to the original keys, which are only known after decrypting
+            return defaultClear.call(this, options, callback);
+        }
+        this.write((done) => this.db.clear(options, done), callback);
+    }
+
+    protected _iterator(options: AbstractIteratorOptions): AbstractIterator<any, any> {
+        return new AurumDBEncryptedIterator(this, options);
+    }
+
+    /**
+     * Used by the iterator
+     */
+    public openRawIterator(options: AbstractIteratorOptions): any {
+        return this.db.iterator({ ...options, keys: true, values: true, keyAsBuffer: false, valueAsBuffer: true });
+    }
+
+    public openValue(storageKey: string, raw: Buffer): { key: string; value: Buffer } {
+        return this.isPlainKey(storageKey) ? { key: storageKey, value: raw } : this.cipher.openEntry(storageKey, raw);
+    }
+
+    private sealValue(key: string, value: Buffer | string): Buffer {
+        const data = Buffer.isBuffer(value) ? value : Buffer.from(String(value), 'utf8');
+        return this.isPlainKey(key) ? data : this.cipher.sealEntry(key, data);
+    }
+
+    /**
+     * Writes wait for a running rotation batch, and rotation batches wait for the writes already in progress. Also used for batches sealed with sealBatch that are written to the root database directly
+     */
+    public write(operation: (done: ErrorCallback) => void, callback: ErrorCallback): void {
+        const start = () => {
+            let finish: () => void;
+            const pending = new Promise<void>((resolve) => (finish = resolve));
+            this.pendingWrites.add(pending);
+            operation((err) => {
+                this.pendingWrites.delete(pending);
+                finish();
+                callback(err);
+            });
+        };
+        if (this.rotating) {
+            this.rotating.then(start);
+        } else {
+            start();
+        }
+    }
+
+    private async lockForRotation<R>(step: () => Promise<R>): Promise<R> {
+        let release: () => void;
+        this.rotating = new Promise<void>((resolve) => (release = resolve));
+        try {
+            await Promise.all(this.pendingWrites);
+            return await step();
+        } finally {
+            this.rotating = undefined;
+            release();
+        }
+    }
+
+    private readRaw(after: string, limit: number): Promise<{ key: string; value: Buffer }[]> {
+        const iterator = this.openRawIterator(after === undefined ? { limit } : { gt: after, limit });
+        const entries: { key: string; value: Buffer }[] = [];
+        return new Promise((resolve, reject) => {
+            const next = () =>
+                iterator.next((err, key, value) => {
+                    if (err || key === undefined) {
+                        return iterator.end((endErr) => (err || endErr ? reject(err || endErr) : resolve(entries)));
+                    }
+                    entries.push({ key, value });
+                    next();
+                });
+            next();
+        });
+    }
+}
+
+/**
+ * Without hashed keys range options are passed on, the keys are stored as they are. With hashed keys the entire sub db is read and filtered once the original keys are decrypted
+ */
+class AurumDBEncryptedIterator extends AbstractIterator<any, any> {
+    private storage: AurumDBEncryptedStorage;
+    private options: AbstractIteratorOptions;
+    private filtered: boolean;
+    private source: any;
+    private remaining: number;
+
+    constructor(storage: AurumDBEncryptedStorage, options: AbstractIteratorOptions) {
+        super(storage);
+        this.storage = storage;
+        this.options = options;
+        this.filtered = storage.hashesKeys;
+        this.remaining = options.limit === undefined || options.limit < 0 ? Infinity : options.limit;
+        this.source = storage.openRawIterator(this.filtered ? {} : options);
+    }
+
+    protected _next(callback: (err?: any, key?: any, value?: any) => void): void {
+        if (this.remaining <= 0) {
+            return process.nextTick(callback);
+        }
+        this.source.next((err, storageKey: string, raw: Buffer) => {
+            if (err || storageKey === undefined) {
+                return callback(err);
+            }
+            let entry: { key: string; value: Buffer };
+            try {
+                entry = this.storage.openValue(storageKey, raw);
+            } catch (e) {
+                return callback(e);
+            }
+            if (this.filtered && !isInBounds(entry.key, this.options)) {
+                return this._next(callback);
+            }
+            this.remaining--;
+            callback(
+                undefined,
+                this.options.keys === false ? undefined : this.options.keyAsBuffer ? Buffer.from(entry.key, 'utf8') : entry.key,
+                this.options.values === false ? undefined : this.options.valueAsBuffer ? entry.value : entry.value.toString('utf8')
+            );
+        });
+    }
+
+    protected _seek(target: string): void {
+        if (this.filtered) {
+            throw new Error('Iterators of indexes that hash their keys can not seek');
+        }
+        this.source.seek(target);
+    }
+
+    protected _end(callback: ErrorCallback): void {
+        this.source.end(callback);
+    }
+}
+
+function isInBounds(key: string, options: AbstractIteratorOptions): boolean {
+    const bound = (value: any) => (value === undefined ? undefined : String(value));
+    const [gt, gte, lt, lte] = [bound(options.gt), bound(options.gte), bound(options.lt), bound(options.lte)];
+    return (gt === undefined || key > gt) && (gte === undefined || key >= gte) && (lt === undefined || key < lt) && (lte === undefined || key <= lte);
+}
@@ -0,0 +1,66 @@
+/**
+ * Thrown by compareAndSet when the version of a key changed since it was read
+ */
+export class AurumDBVersionConflictError extends Error {
+    public readonly key: string;
+    public readonly expectedVersion: number;
+    public readonly actualVersion: number;
+
+    constructor(key: string, expectedVersion: number, actualVersion: number) {
+        super(`Version conflict on key ${key}: expected version ${expectedVersion} but found ${actualVersion}`);
+        this.name = 'AurumDBVersionConflictError';
+        this.key = key;
+        this.expectedVersion = expectedVersion;
+        this.actualVersion = actualVersion;
+    }
+}
+
+/**
+ * Thrown when a value written to a structure with a validator does not conform to it
+ */
+export class AurumDBValidationError extends Error {
+    public readonly key: string;
+    public readonly path: string;
+    public readonly reason: string;
+
+    constructor(key: string, path: string, reason: string) {
+        super(`Invalid value for key ${key} at ${path || '/'}: ${reason}`);
+        this.name = 'AurumDBValidationError';
+        this.key = key;
+        this.path = path;
+        this.reason = reason;
+    }
+}
+
+/**
+ * Thrown when reading a key that does not exist anymore even though leveldb still has it, such as a key that expired but was not swept yet.
+ * Shaped like the error leveldb throws for missing keys, so checks for e.notFound keep working
+ */
+export class AurumDBNotFoundError extends Error {
+    public readonly key: string;
+    public readonly notFound = true;
+    public readonly status = 404;
+
+    constructor(key: string) {
+        super(`Key not found in database [${key}]`);
+        this.name = 'NotFoundError';
+        this.key = key;
+    }
+}
+
+/**
+ * Emitted by the write and append streams of a streamable index when a chunk would take the index over its quota. The chunk is not written
+ */
+export class AurumDBQuotaExceededError extends Error {
+    public readonly key: string;
+    public readonly quota: number;
+    public readonly requiredSize: number;
+
+    constructor(key: string, quota: number, requiredSize: number) {
+        super(`Writing to ${key} would take the index to ${requiredSize} bytes, over its quota of ${quota} bytes`);
+        this.name = 'AurumDBQuotaExceededError';
+        this.key = key;
+        this.quota = quota;
+        this.requiredSize = requiredSize;
+    }
+}
@@ -1,55 +1,203 @@
 import { META_KEY } from './constants';
 
-export class AurumDBIterator<T> {
+/**
+ * Leaves the keys or the values out of the underlying iterator, like the keys and values options of leveldb iterators
+ */
+export interface AurumDBIteratorProjection {
+    keys?: false;
+    values?: false;
+}
+
+/**
+ * Creates the underlying iterator on the first read. Keys and values iterate with a projection, which the factory may ignore when it needs both to decide what to yield
+ */
+export type AurumDBIteratorFactory = (projection: AurumDBIteratorProjection) => any;
+
+/**
+ * Wraps a leveldb iterator, or anything with the same callback based next and end. The meta key is skipped.
+ * Iterating with for await ends the underlying iterator once the loop is left, including through break or a thrown error
+ */
+export class AurumDBIterator<T> implements AsyncIterable<{ key: string; value: T }> {
     private iterator: any;
+    private factory: AurumDBIteratorFactory;
+    private projection: AurumDBIteratorProjection = {};
+    private ending: Promise<void>;
     public current: { key: string; value: T };
 
-    constructor(iterator: any) {
-        this.iterator = iterator;
+    constructor(iterator: any | AurumDBIteratorFactory) {
+        if (typeof iterator === 'function') {
+            this.factory = iterator;
+        } else {
+            this.iterator = iterator;
+        }
     }
 
+    public [Symbol.asyncIterator](): AsyncGenerator<{ key: string; value: T }> {
+        return this.asGenerator();
+    }
+
+    /**
+     * Errors of ending the iterator are thrown to the consumer
+     */
     public async *asGenerator(): AsyncGenerator<{ key: string; value: T }> {
-        while (await this.next()) {
-            yield this.current;
+        try {
+            while (await this.next()) {
+                yield this.current;
+            }
+        } finally {
+            await this.end();
+        }
+    }
+
+    /**
+     * Iterators created from a factory that were not read yet do not read the values
+     */
+    public async *keys(): AsyncGenerator<string> {
+        this.project({ values: false });
+        for await (const { key } of this) {
+            yield key;
+        }
+    }
+
+    /**
+     * Iterators created from a factory that were not read yet do not read the keys, unless the factory needs them
+     */
+    public async *values(): AsyncGenerator<T> {
+        this.project({ keys: false });
+        for await (const { value } of this) {
+            yield value;
         }
     }
 
     public next(): Promise<{ key: string; value: T }> {
+        if (this.ending) {
+            return Promise.resolve(undefined);
+        }
         return new Promise<{ key: string; value: T }>((resolve, reject) => {
-            function cb(err: any, key: string, value: T) {
+            const cb = (err: any, key: string, value: T) => {
                 if (err) {
-                    this.end();
-                    reject(err);
+                    this.end().then(
+                        () => reject(err),
+                        () => reject(err)
+                    );
+                } else if (key === undefined ? value === undefined : !key) {
+                    // Without keys only the missing value tells the end of the iteration
+                    this.end().then(() => resolve(undefined), reject);
+                } else if (key === META_KEY) {
+                    this.iterator.next(cb);
                 } else {
-                    if (!key) {
-                        this.end();
-                    }
-                    if (!key) {
-                        this.current = undefined;
-                    } else {
-                        if (key === META_KEY) {
-                            return this.iterator.next(cb.bind(this));
-                        } else {
-                            this.current = { key, value };
-                        }
-                    }
+                    this.current = { key, value };
                     resolve(this.current);
                 }
+            };
+            this.open().next(cb);
+        });
+    }
+
+    /**
+     * Continues at the first key at or after the target, or at or before it for reverse iterators. Not every iterator can seek, such as those of snapshots
+     */
+    public seek(target: string): void {
+        if (this.ending) {
+            throw new Error('Can not seek after the iterator has ended');
+        }
+        const iterator = this.open();
+        if (typeof iterator.seek !== 'function') {
+            throw new Error('This iterator can not seek');
+        }
+        this.current = undefined;
+        iterator.seek(target);
+    }
+
+    /**
+     * Lazily maps the values, keys stay the same
+     */
+    public map<R>(mapper: (value: T, key: string) => R | Promise<R>): AurumDBIterator<R> {
+        return this.derive(async () => {
+            const entry = await this.next();
+            return entry && { key: entry.key, value: await mapper(entry.value, entry.key) };
+        });
+    }
+
+    public filter(predicate: (value: T, key: string) => boolean | Promise<boolean>): AurumDBIterator<T> {
+        return this.derive(async () => {
+            let entry = await this.next();
+            while (entry && !(await predicate(entry.value, entry.key))) {
+                entry = await this.next();
+            }
+            return entry;
+        });
+    }
+
+    /**
+     * Ends this iterator once count entries were read
+     */
+    public take(count: number): AurumDBIterator<T> {
+        let taken = 0;
+        return this.derive(async () => {
+            if (taken >= count) {
+                await this.end();
+                return undefined;
             }
-            this.iterator.next(cb.bind(this));
+            taken++;
+            return this.next();
         });
     }
 
-    public async end(): Promise<void> {
-        return new Promise<void>((resolve, reject) => {
+    public async toArray(): Promise<{ key: string; value: T }[]> {
+        const entries: { key: string; value: T }[] = [];
+        for await (const entry of this) {
+            entries.push(entry);
+        }
+        return entries;
+    }
+
+    public end(): Promise<void> {
+        if (!this.ending) {
             this.current = undefined;
-            this.iterator.end((err) => {
-                if (err) {
-                    reject(err);
-                } else {
-                    resolve();
-                }
+            if (!this.iterator) {
+                // Never read, so the factory did not create an iterator to end
+                this.ending = Promise.resolve();
+                return this.ending;
+            }
+            this.ending = new Promise<void>((resolve, reject) => {
+                this.iterator.end((err) => {
+                    if (err) {
+                        reject(err);
+                    } else {
+                        resolve();
+                    }
+                });
             });
+        }
+        return this.ending;
+    }
+
+    /**
+     * Only applies before the first read, afterwards the underlying iterator exists already and both are read
+     */
+    private project(projection: AurumDBIteratorProjection): void {
+        if (!this.iterator) {
+            this.projection = projection;
+        }
+    }
+
+    private open(): any {
+        if (!this.iterator) {
+            this.iterator = this.factory(this.projection);
+        }
+        return this.iterator;
+    }
+
+    private derive<R>(next: () => Promise<{ key: string; value: R }>): AurumDBIterator<R> {
+        return new AurumDBIterator<R>({
+            next: (cb: (err: any, key?: string, value?: R) => void) => {
+                next().then((entry) => (entry ? cb(undefined, entry.key, entry.value) : cb(undefined)), cb);
+            },
+            end: (cb: (err?: any) => void) => {
+                this.end().then(() => cb(), cb);
+            },
+            seek: (target: string) => this.seek(target),
         });
     }
 }
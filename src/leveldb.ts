@@ -11,7 +11,12 @@ export type JsonEncoding = "json";
 
 export type BinaryEncodings = "binary";
 
-export type Encodings = TextEncodings | BinaryEncodings | JsonEncoding;
+/**
+ * Name of a codec registered through AurumDB.registerCodec
+ */
+export type CodecEncodings = "msgpack" | "cbor" | "rich-json" | (string & {});
+
+export type Encodings = TextEncodings | BinaryEncodings | JsonEncoding | CodecEncodings;
 
 export interface EncodingOptions {
     keyEncoding?: Encodings;
@@ -0,0 +1,87 @@
+import { Encodings } from './leveldb';
+import { AurumDBJsonSchema } from './schema';
+
+export type AurumDBStructureType = 'index' | 'streamableIndex' | 'ordered' | 'linked';
+
+/**
+ * Stored under the meta key of every structure. The presence of this record is what makes a structure exist
+ */
+export interface AurumDBStructureMetadata {
+    type: AurumDBStructureType;
+    /**
+     * The default encoding the structure was created with, restored whenever the structure is opened
+     */
+    encoding?: Encodings;
+    createdAt: string;
+    /**
+     * Version of the shape of the stored values, only changed by AurumDB.migrate
+     */
+    schemaVersion: number;
+    tags: { [tag: string]: string };
+    /**
+     * Milliseconds after which values written to an index without an explicit ttl expire, set through AurumDBIndex.setDefaultTtl
+     */
+    defaultTtl?: number;
+    /**
+     * Set when the values of the structure are encrypted, the keys of indexes can be hashed as well
+     */
+    encryption?: { hashKeys: boolean };
+    /**
+     * Bytes a streamable index may hold in total, set through AurumDBStreamableIndex.setQuota
+     */
+    quota?: number;
+    /**
+     * Streamable indexes that store identical records once, set through AurumDBStreamableIndex.setContentAddressed
+     */
+    contentAddressed?: boolean;
+    /**
+     * JSON schema every value of an index or ordered collection has to match, set through setValidator of the structure
+     */
+    schema?: AurumDBJsonSchema;
+}
+
+export interface AurumDBMigration<T, R> {
+    from: number;
+    to: number;
+    transform: (value: T, key: string) => R | Promise<R>;
+    type?: 'index' | 'ordered';
+}
+
+export function createMetadata(type: AurumDBStructureType, encoding?: Encodings, encryption?: { hashKeys: boolean }): AurumDBStructureMetadata {
+    const metadata: AurumDBStructureMetadata = { type, encoding, createdAt: new Date().toJSON(), schemaVersion: 0, tags: {} };
+    if (encryption) {
+        metadata.encryption = encryption;
+    }
+    return metadata;
+}
+
+/**
+ * Before the metadata record existed indexes stored their creation date under the meta key and collections their length
+ */
+export function isLegacyMetadata(meta: any): meta is string | number {
+    return typeof meta === 'string' || typeof meta === 'number';
+}
+
+/**
+ * Entry of the catalog returned by AurumDB.listStructures. Only indexes can have children
+ */
+export interface AurumDBStructureInfo {
+    name: string;
+    type: AurumDBStructureType;
+    createdAt: string;
+    children: AurumDBStructureInfo[];
+}
+
+export interface AurumDBStructureDescription {
+    name: string;
+    type: AurumDBStructureType;
+    metadata: AurumDBStructureMetadata;
+    /**
+     * Values for indexes, items for collections and records for streamable indexes. Nested structures are not counted
+     */
+    entryCount: number;
+    /**
+     * Bytes taken up by the keys and values of the structure before compression, including nested structures and internal data
+     */
+    approximateSize: number;
+}
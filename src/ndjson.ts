@@ -0,0 +1,68 @@
+import { once } from 'events';
+import { createInterface } from 'readline';
+import { LevelEncoding } from './codecs/registry';
+import { AurumDBStructureMetadata, AurumDBStructureType } from './metadata';
+
+export const NDJSON_FORMAT = 'aurum-db';
+export const NDJSON_VERSION = 1;
+
+/**
+ * Every line of an export is one of these. A structure line is followed by the entries, records and chunks of that structure, then by the structures nested inside it.
+ * Paths hold the names of all structures from the root down to the structure itself. Binary data is base64 encoded, entries of structures using a registered codec are written in the encoded form
+ */
+export type AurumDBExportLine =
+    | { kind: 'header'; format: string; version: number }
+    | { kind: 'structure'; path: string[]; type: AurumDBStructureType; metadata: AurumDBStructureMetadata }
+    | { kind: 'entry'; path: string[]; key?: string; value?: any; base64?: string; encoded?: string }
+    | { kind: 'record'; path: string[]; key: string; metadata?: any }
+    | { kind: 'chunk'; path: string[]; key: string; base64: string };
+
+export interface AurumDBExportOptions {
+    /**
+     * Names of the top level structures to export, all structures are exported if left out
+     */
+    structures?: string[];
+}
+
+export interface AurumDBImportOptions {
+    /**
+     * merge writes the imported entries into existing structures. replace deletes every existing structure that is part of the import before importing it.
+     * Structures that are not part of the import are never touched. Defaults to merge
+     */
+    mode?: 'merge' | 'replace';
+}
+
+export async function writeLine(writable: NodeJS.WritableStream, line: AurumDBExportLine): Promise<void> {
+    if (!writable.write(JSON.stringify(line) + '\n')) {
+        await once(writable, 'drain');
+    }
+}
+
+export async function* readLines(readable: NodeJS.ReadableStream): AsyncGenerator<AurumDBExportLine> {
+    for await (const line of createInterface({ input: readable, crlfDelay: Infinity })) {
+        if (line.trim()) {
+            yield JSON.parse(line);
+        }
+    }
+}
+
+/**
+ * Values of structures using a codec can hold types JSON can not represent, so the codec output is written instead
+ */
+export function encodeEntryValue(value: any, codec?: LevelEncoding): { value?: any; base64?: string; encoded?: string } {
+    if (codec) {
+        return { encoded: Buffer.from(codec.encode(value)).toString('base64') };
+    }
+    return Buffer.isBuffer(value) ? { base64: value.toString('base64') } : { value };
+}
+
+export function decodeEntryValue(line: { value?: any; base64?: string; encoded?: string }, codec?: LevelEncoding): any {
+    if (line.encoded !== undefined) {
+        if (!codec) {
+            throw new Error('Encoded entry in AurumDB export for a structure without a codec');
+        }
+        const data = Buffer.from(line.encoded, 'base64');
+        return codec.decode(codec.buffer ? data : data.toString('utf8'));
+    }
+    return line.base64 !== undefined ? Buffer.from(line.base64, 'base64') : line.value;
+}
@@ -0,0 +1,71 @@
+import { Encodings } from './leveldb';
+
+/**
+ * Selects keys either by prefix or by bounds. The prefix and the bounds can be combined in which case a key has to satisfy both
+ */
+export interface AurumDBKeyRange {
+    prefix?: string;
+    gt?: string;
+    gte?: string;
+    lt?: string;
+    lte?: string;
+}
+
+export interface AurumDBQueryOptions extends AurumDBKeyRange {
+    limit?: number;
+    reverse?: boolean;
+    valueEncoding?: Encodings;
+}
+
+export function isInRange(key: string, range: AurumDBKeyRange): boolean {
+    if (range.prefix !== undefined && !key.startsWith(range.prefix)) {
+        return false;
+    }
+    if (range.gt !== undefined && key <= range.gt) {
+        return false;
+    }
+    if (range.gte !== undefined && key < range.gte) {
+        return false;
+    }
+    if (range.lt !== undefined && key >= range.lt) {
+        return false;
+    }
+    if (range.lte !== undefined && key > range.lte) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Converts a range into leveldb iterator bounds. A prefix becomes a gte bound on the prefix itself and a lt bound on the first string that sorts after every key with that prefix
+ */
+export function toIteratorBounds(range: AurumDBKeyRange): { gt?: string; gte?: string; lt?: string; lte?: string } {
+    const bounds: { gt?: string; gte?: string; lt?: string; lte?: string } = {};
+    for (const bound of ['gt', 'gte', 'lt', 'lte']) {
+        if (range[bound] !== undefined) {
+            bounds[bound] = range[bound];
+        }
+    }
+
+    if (range.prefix) {
+        if (bounds.gte === undefined || bounds.gte < range.prefix) {
+            bounds.gte = range.prefix;
+        }
+        const prefixEnd = getPrefixEnd(range.prefix);
+        if (prefixEnd !== undefined && (bounds.lt === undefined || bounds.lt > prefixEnd)) {
+            bounds.lt = prefixEnd;
+        }
+    }
+
+    return bounds;
+}
+
+function getPrefixEnd(prefix: string): string {
+    for (let i = prefix.length - 1; i >= 0; i--) {
+        const code = prefix.charCodeAt(i);
+        if (code < 0xffff) {
+            return prefix.substring(0, i) + String.fromCharCode(code + 1);
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,155 @@
+/**
+ * The subset of JSON Schema that is supported for validating values. Unknown keywords are ignored
+ */
+export interface AurumDBJsonSchema {
+    type?: AurumDBJsonSchemaType | AurumDBJsonSchemaType[];
+    enum?: any[];
+    const?: any;
+    properties?: { [property: string]: AurumDBJsonSchema };
+    required?: string[];
+    additionalProperties?: boolean | AurumDBJsonSchema;
+    items?: AurumDBJsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    anyOf?: AurumDBJsonSchema[];
+}
+
+export type AurumDBJsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Describes why a value is invalid. The path points at the offending part of the value in JSON pointer notation, an empty path means the value itself
+ */
+export interface AurumDBValidationIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * A stored record that does not conform to the validator of its structure, as reported by validateAll
+ */
+export interface AurumDBInvalidRecord extends AurumDBValidationIssue {
+    key: string;
+}
+
+/**
+ * Returns undefined if the value is valid
+ */
+export type AurumDBValidatorFunction<T> = (value: T) => AurumDBValidationIssue | undefined;
+
+/**
+ * JSON schemas are persisted with the structure, validator functions only live as long as the handle and have to be set again every time the database is opened
+ */
+export type AurumDBValidator<T> = AurumDBJsonSchema | AurumDBValidatorFunction<T>;
+
+export function validate<T>(validator: AurumDBValidator<T>, value: T): AurumDBValidationIssue | undefined {
+    if (typeof validator === 'function') {
+        return validator(value);
+    } else {
+        return validateSchema(validator, value, '');
+    }
+}
+
+function validateSchema(schema: AurumDBJsonSchema, value: any, path: string): AurumDBValidationIssue | undefined {
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some((type) => matchesType(type, value))) {
+            return { path, message: `expected ${types.join(' or ')}` };
+        }
+    }
+    if (schema.enum !== undefined && !schema.enum.some((option) => deepEqual(option, value))) {
+        return { path, message: `expected one of ${JSON.stringify(schema.enum)}` };
+    }
+    if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+        return { path, message: `expected ${JSON.stringify(schema.const)}` };
+    }
+    if (schema.anyOf !== undefined && !schema.anyOf.some((option) => validateSchema(option, value, path) === undefined)) {
+        return { path, message: 'does not match any of the allowed schemas' };
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            return { path, message: `shorter than ${schema.minLength}` };
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            return { path, message: `longer than ${schema.maxLength}` };
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            return { path, message: `does not match ${schema.pattern}` };
+        }
+    } else if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            return { path, message: `less than ${schema.minimum}` };
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            return { path, message: `greater than ${schema.maximum}` };
+        }
+    } else if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            return { path, message: `fewer than ${schema.minItems} items` };
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            return { path, message: `more than ${schema.maxItems} items` };
+        }
+        if (schema.items !== undefined) {
+            for (let i = 0; i < value.length; i++) {
+                const issue = validateSchema(schema.items, value[i], `${path}/${i}`);
+                if (issue) {
+                    return issue;
+                }
+            }
+        }
+    } else if (typeof value === 'object' && value !== null) {
+        for (const property of schema.required ?? []) {
+            if (!(property in value)) {
+                return { path: `${path}/${escapePointer(property)}`, message: 'is required' };
+            }
+        }
+        for (const property of Object.keys(value)) {
+            const propertyPath = `${path}/${escapePointer(property)}`;
+            const propertySchema = schema.properties?.[property];
+            if (propertySchema !== undefined) {
+                const issue = validateSchema(propertySchema, value[property], propertyPath);
+                if (issue) {
+                    return issue;
+                }
+            } else if (schema.additionalProperties === false) {
+                return { path: propertyPath, message: 'is not allowed' };
+            } else if (typeof schema.additionalProperties === 'object') {
+                const issue = validateSchema(schema.additionalProperties, value[property], propertyPath);
+                if (issue) {
+                    return issue;
+                }
+            }
+        }
+    }
+
+    return undefined;
+}
+
+function matchesType(type: AurumDBJsonSchemaType, value: any): boolean {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function deepEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function escapePointer(property: string): string {
+    return property.replace(/~/g, '~0').replace(/\//g, '~1');
+}
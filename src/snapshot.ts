@@ -0,0 +1,133 @@
+import { CancellationToken } from 'aurumjs';
+import { LevelUp } from 'levelup';
+import { AurumDBCodecRegistry, LevelEncoding } from './codecs/registry';
+import { AurumDBCipher, AurumDBKeyProvider } from './encryption';
+import { Encodings } from './leveldb';
+
+/**
+ * Amount of entries read per seek when iterating over a range of a snapshot
+ */
+const SNAPSHOT_BATCH_SIZE = 100;
+
+/**
+ * A single leveldb iterator over the root database. Leveldb iterators read from an implicit snapshot taken when they are created, seeking that one iterator to different keys serves every read from the same state.
+ * Reads are queued because the iterator can only be at one place at a time
+ */
+export class AurumDBSnapshotReader {
+    private iterator: any;
+    private lock: Promise<any>;
+    private released: boolean;
+    private codecs: AurumDBCodecRegistry;
+    private keyProvider: AurumDBKeyProvider;
+
+    constructor(db: LevelUp, codecs: AurumDBCodecRegistry, cancellationToken?: CancellationToken, keyProvider?: AurumDBKeyProvider) {
+        this.iterator = db.iterator({ keyEncoding: 'utf8', valueEncoding: 'binary' });
+        this.codecs = codecs;
+        this.keyProvider = keyProvider;
+        this.lock = Promise.resolve();
+        this.released = false;
+        cancellationToken?.addCancelable(() => this.release());
+    }
+
+    public get isReleased(): boolean {
+        return this.released;
+    }
+
+    /**
+     * Returns undefined if the key did not exist when the snapshot was taken
+     */
+    public async get(key: string): Promise<Buffer> {
+        const [entry] = await this.read(key, undefined, 1);
+        return entry?.key === key ? entry.value : undefined;
+    }
+
+    /**
+     * Iterates over all keys in the snapshot that are greater or equal to gte and less than lt
+     */
+    public async *entries(gte: string, lt: string): AsyncGenerator<{ key: string; value: Buffer }> {
+        let cursor = gte;
+        while (true) {
+            const batch = await this.read(cursor, lt, SNAPSHOT_BATCH_SIZE);
+            for (const entry of batch) {
+                yield entry;
+            }
+            if (batch.length < SNAPSHOT_BATCH_SIZE) {
+                return;
+            }
+            // The smallest key that sorts after the last key read
+            cursor = batch[batch.length - 1].key + '\x00';
+        }
+    }
+
+    /**
+     * Decodes a value read from the snapshot, the encoding may be the name of a registered codec
+     */
+    public decode(value: Buffer, encoding?: Encodings): any {
+        return decodeSnapshotValue(value, this.codecs.resolve(encoding));
+    }
+
+    /**
+     * Snapshots read the encrypted values, structures that are encrypted decrypt them with this cipher
+     */
+    public createCipher(encryption: { hashKeys: boolean }): AurumDBCipher {
+        if (!this.keyProvider) {
+            throw new Error('Encryption requires a key provider in the database config');
+        }
+        return new AurumDBCipher(this.keyProvider, encryption.hashKeys);
+    }
+
+    /**
+     * Ends the underlying iterator, which allows leveldb to drop the data only the snapshot still refers to. Reads started before are completed first
+     */
+    public release(): Promise<void> {
+        if (this.released) {
+            return this.lock;
+        }
+        this.released = true;
+        return this.withLock(() => new Promise<void>((resolve, reject) => this.iterator.end((err) => (err ? reject(err) : resolve()))));
+    }
+
+    private read(gte: string, lt: string, limit: number): Promise<{ key: string; value: Buffer }[]> {
+        if (this.released) {
+            return Promise.reject(new Error('Snapshot has been released'));
+        }
+        return this.withLock(async () => {
+            const result: { key: string; value: Buffer }[] = [];
+            this.iterator.seek(gte);
+            while (result.length < limit) {
+                const entry = await new Promise<{ key: string; value: Buffer }>((resolve, reject) =>
+                    this.iterator.next((err, key, value) => (err ? reject(err) : resolve(key === undefined ? undefined : { key, value })))
+                );
+                if (entry === undefined || (lt !== undefined && entry.key >= lt)) {
+                    break;
+                }
+                result.push(entry);
+            }
+            return result;
+        });
+    }
+
+    private withLock<R>(operation: () => Promise<R>): Promise<R> {
+        const result = this.lock.then(operation);
+        this.lock = result.catch(() => undefined);
+        return result;
+    }
+}
+
+/**
+ * Snapshots read raw bytes, this applies the encoding leveldb would have applied when reading the value
+ */
+export function decodeSnapshotValue(value: Buffer, encoding: Encodings | LevelEncoding = 'utf8'): any {
+    if (typeof encoding !== 'string') {
+        const codec = encoding as LevelEncoding;
+        return codec.decode(codec.buffer ? value : value.toString('utf8'));
+    }
+    switch (encoding) {
+        case 'binary':
+            return value;
+        case 'json':
+            return JSON.parse(value.toString('utf8'));
+        default:
+            return value.toString(encoding as BufferEncoding);
+    }
+}
@@ -0,0 +1,299 @@
+import { AbstractBatch } from 'abstract-leveldown';
+import { LevelUp } from 'levelup';
+import { AurumDBIndex } from './aurum-db';
+import { AurumDBChangeDraft, AurumDBChangeLog } from './change_log';
+import { LevelEncoding } from './codecs/registry';
+import { AurumDBOrderedCollection } from './datastructures/ordered_list';
+import { Encodings } from './leveldb';
+
+/**
+ * The shared handle of a structure taking part in a transaction, used for reading, locking and notifying observers after the commit
+ */
+export interface AurumDBTransactionTarget<H> {
+    keyPrefix: string;
+    handle: H;
+    /**
+     * Default encoding of the structure, the batch is written to the root database so it has to be set on every operation
+     */
+    encoding?: Encodings | LevelEncoding;
+    /**
+     * Set for encrypted structures, turns the ops of the structure into the ops written to the root database
+     */
+    sealBatch?(ops: AbstractBatch[]): AbstractBatch[];
+    /**
+     * Set for structures watched by the change log, returns the changes of the ops of the structure that are recorded
+     */
+    describeChanges?(ops: AbstractBatch[]): AurumDBChangeDraft[];
+}
+
+export interface AurumDBTransactionResolver {
+    getIndex<T>(name: string): Promise<AurumDBTransactionTarget<AurumDBIndex<T>>>;
+    getOrderedCollection<T>(name: string): Promise<AurumDBTransactionTarget<AurumDBOrderedCollection<T>>>;
+    /**
+     * Replaces codec names with encodings leveldb understands
+     */
+    resolveEncoding(encoding: Encodings): Encodings | LevelEncoding;
+    /**
+     * Changes of the structures are appended to the log in the batch of the transaction
+     */
+    changeLog?: AurumDBChangeLog;
+}
+
+interface TransactionParticipant {
+    keyPrefix: string;
+    lock<R>(commit: () => Promise<R>): Promise<R>;
+    /**
+     * Returns the buffered writes with keys relative to the structure
+     */
+    prepare(): Promise<AbstractBatch[]>;
+    /**
+     * Returns the ops as they are stored, observers are notified with the ops returned by prepare
+     */
+    seal(ops: AbstractBatch[]): AbstractBatch[];
+    describeChanges(ops: AbstractBatch[]): AurumDBChangeDraft[];
+    notify(ops: AbstractBatch[]): void;
+}
+
+/**
+ * Buffers writes to any number of structures and commits them as a single leveldb batch. Observers are only notified once the batch is written.
+ * Created through AurumDB.transaction
+ */
+export class AurumDBTransaction {
+    private db: LevelUp;
+    private resolver: AurumDBTransactionResolver;
+    private participants: Map<string, TransactionParticipant>;
+    private finished: boolean;
+
+    constructor(db: LevelUp, resolver: AurumDBTransactionResolver) {
+        this.db = db;
+        this.resolver = resolver;
+        this.participants = new Map();
+        this.finished = false;
+    }
+
+    public async getIndex<T>(name: string, defaultEncoding?: Encodings): Promise<AurumDBTransactionIndex<T>> {
+        const target = await this.resolver.getIndex<T>(name);
+        return this.join(target.keyPrefix, () => new AurumDBTransactionIndex<T>(this, target, this.resolver.resolveEncoding(defaultEncoding)));
+    }
+
+    public async getOrderedCollection<T>(name: string, defaultEncoding?: Encodings): Promise<AurumDBTransactionOrderedCollection<T>> {
+        const target = await this.resolver.getOrderedCollection<T>(name);
+        return this.join(target.keyPrefix, () => new AurumDBTransactionOrderedCollection<T>(this, target, this.resolver.resolveEncoding(defaultEncoding)));
+    }
+
+    public assertOpen(): void {
+        if (this.finished) {
+            throw new Error('Transaction already finished');
+        }
+    }
+
+    /**
+     * Writes all buffered changes in a single batch. All structures taking part are locked while the batch is prepared and written
+     */
+    public async commit(): Promise<void> {
+        this.assertOpen();
+        this.finished = true;
+        const participants = Array.from(this.participants.values()).sort((a, b) => (a.keyPrefix < b.keyPrefix ? -1 : 1));
+
+        const write = async (): Promise<void> => {
+            const changes: AbstractBatch[][] = [];
+            const batch: AbstractBatch[] = [];
+            const logged: AurumDBChangeDraft[] = [];
+            for (const participant of participants) {
+                const ops = await participant.prepare();
+                changes.push(ops);
+                for (const op of participant.seal(ops)) {
+                    batch.push({ ...op, key: participant.keyPrefix + op.key });
+                }
+                logged.push(...participant.describeChanges(ops));
+            }
+            const writeBatch = async (logOps: AbstractBatch[]): Promise<void> => {
+                if (batch.length) {
+                    await this.db.batch(batch.concat(logOps));
+                }
+            };
+            if (this.resolver.changeLog && logged.length) {
+                await this.resolver.changeLog.append(logged, writeBatch);
+            } else {
+                await writeBatch([]);
+            }
+            for (let i = 0; i < participants.length; i++) {
+                if (changes[i].length) {
+                    participants[i].notify(changes[i]);
+                }
+            }
+        };
+
+        await participants.reduceRight((next, participant) => () => participant.lock(next), write)();
+    }
+
+    /**
+     * Discards all buffered changes
+     */
+    public rollback(): void {
+        this.finished = true;
+    }
+
+    private join<H extends TransactionParticipant>(keyPrefix: string, create: () => H): H {
+        this.assertOpen();
+        if (!this.participants.has(keyPrefix)) {
+            this.participants.set(keyPrefix, create());
+        }
+        return this.participants.get(keyPrefix) as H;
+    }
+}
+
+export class AurumDBTransactionIndex<T> implements TransactionParticipant {
+    public readonly keyPrefix: string;
+    private tx: AurumDBTransaction;
+    private handle: AurumDBIndex<T>;
+    private defaultEncoding: Encodings | LevelEncoding;
+    private sealBatch: (ops: AbstractBatch[]) => AbstractBatch[];
+    private describeChangesOf: (ops: AbstractBatch[]) => AurumDBChangeDraft[];
+    private writes: Map<string, { value: T; encoding: Encodings | LevelEncoding }>;
+
+    constructor(tx: AurumDBTransaction, target: AurumDBTransactionTarget<AurumDBIndex<T>>, defaultEncoding?: Encodings | LevelEncoding) {
+        this.tx = tx;
+        this.keyPrefix = target.keyPrefix;
+        this.handle = target.handle;
+        this.defaultEncoding = defaultEncoding ?? target.encoding;
+        this.sealBatch = target.sealBatch;
+        this.describeChangesOf = target.describeChanges;
+        this.writes = new Map();
+    }
+
+    /**
+     * Reads a value, including changes made earlier in the same transaction
+     */
+    public async get(key: string, overrideEncoding?: Encodings): Promise<T> {
+        if (this.writes.has(key)) {
+            const { value } = this.writes.get(key);
+            if (value === undefined) {
+                throw new Error(`Key not found in database [${key}]`);
+            }
+            return value;
+        }
+        return this.handle.get(key, overrideEncoding ?? this.defaultEncoding);
+    }
+
+    public async has(key: string): Promise<boolean> {
+        if (this.writes.has(key)) {
+            return this.writes.get(key).value !== undefined;
+        }
+        return this.handle.has(key);
+    }
+
+    public set(key: string, value: T, overrideEncoding?: Encodings): void {
+        this.tx.assertOpen();
+        this.writes.set(key, { value, encoding: overrideEncoding ?? this.defaultEncoding });
+    }
+
+    public delete(key: string): void {
+        this.tx.assertOpen();
+        this.writes.set(key, { value: undefined, encoding: undefined });
+    }
+
+    public lock<R>(commit: () => Promise<R>): Promise<R> {
+        return this.handle.lockForCommit(commit);
+    }
+
+    public async prepare(): Promise<AbstractBatch[]> {
+        const ops: AbstractBatch[] = [];
+        for (const [key, { value, encoding }] of this.writes) {
+            ops.push(...(await this.handle.prepareBatch(key, value, encoding)));
+        }
+        return ops;
+    }
+
+    public seal(ops: AbstractBatch[]): AbstractBatch[] {
+        return this.sealBatch ? this.sealBatch(ops) : ops;
+    }
+
+    public describeChanges(ops: AbstractBatch[]): AurumDBChangeDraft[] {
+        return this.describeChangesOf ? this.describeChangesOf(ops) : [];
+    }
+
+    public notify(ops: AbstractBatch[]): void {
+        this.handle.onTransactionCommit(ops);
+    }
+}
+
+export class AurumDBTransactionOrderedCollection<T> implements TransactionParticipant {
+    public readonly keyPrefix: string;
+    private tx: AurumDBTransaction;
+    private handle: AurumDBOrderedCollection<T>;
+    private defaultEncoding: Encodings | LevelEncoding;
+    private sealBatch: (ops: AbstractBatch[]) => AbstractBatch[];
+    private describeChangesOf: (ops: AbstractBatch[]) => AurumDBChangeDraft[];
+    private pushed: T[];
+    private updated: Map<number, T>;
+
+    constructor(tx: AurumDBTransaction, target: AurumDBTransactionTarget<AurumDBOrderedCollection<T>>, defaultEncoding?: Encodings | LevelEncoding) {
+        this.tx = tx;
+        this.keyPrefix = target.keyPrefix;
+        this.handle = target.handle;
+        this.defaultEncoding = defaultEncoding ?? target.encoding;
+        this.sealBatch = target.sealBatch;
+        this.describeChangesOf = target.describeChanges;
+        this.pushed = [];
+        this.updated = new Map();
+    }
+
+    /**
+     * Length of the collection including items pushed earlier in the same transaction. Items pushed by others before the commit are not included
+     */
+    public async length(): Promise<number> {
+        return (await this.handle.length()) + this.pushed.length;
+    }
+
+    public async get(index: number): Promise<T> {
+        if (this.updated.has(index)) {
+            return this.updated.get(index);
+        }
+        const len = await this.handle.length();
+        if (index >= len && index < len + this.pushed.length) {
+            return this.pushed[index - len];
+        }
+        return this.handle.get(index);
+    }
+
+    /**
+     * The indices of pushed items are only decided on commit, so pushes from outside the transaction are never overwritten
+     */
+    public push(...items: T[]): void {
+        this.tx.assertOpen();
+        this.pushed.push(...items);
+    }
+
+    public async set(index: number, item: T): Promise<void> {
+        this.tx.assertOpen();
+        const len = await this.handle.length();
+        if (index >= len + this.pushed.length) {
+            throw new Error('cannot write outside of bounds of array');
+        } else if (index >= len) {
+            this.pushed[index - len] = item;
+        } else {
+            this.updated.set(index, item);
+        }
+    }
+
+    public lock<R>(commit: () => Promise<R>): Promise<R> {
+        return this.handle.lockForCommit(commit);
+    }
+
+    public async prepare(): Promise<AbstractBatch[]> {
+        return this.handle.prepareBatch(this.updated, this.pushed, this.defaultEncoding);
+    }
+
+    public seal(ops: AbstractBatch[]): AbstractBatch[] {
+        return this.sealBatch ? this.sealBatch(ops) : ops;
+    }
+
+    public describeChanges(ops: AbstractBatch[]): AurumDBChangeDraft[] {
+        return this.describeChangesOf ? this.describeChangesOf(ops) : [];
+    }
+
+    public notify(ops: AbstractBatch[]): void {
+        this.handle.onTransactionCommit(ops);
+    }
+}
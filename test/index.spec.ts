@@ -1,9 +1,20 @@
 import * as assert from 'assert';
 import { CancellationToken, MapDataSource } from 'aurumjs';
-import { ReadStream } from 'fs';
+import { once } from 'events';
 import { LevelUp } from 'levelup';
+import { PassThrough, Readable } from 'stream';
 import { promisify } from 'util';
-import { AurumDB, initializeDatabase } from '../src/aurum-db';
+import {
+    AurumDB,
+    AurumDBChange,
+    AurumDBChangeLog,
+    AurumDBJsonSchema,
+    AurumDBValidationError,
+    AurumDBVersionConflictError,
+    initializeDatabase,
+} from '../src/aurum-db';
+import { LENGTH_KEY, META_KEY } from '../src/constants';
+import { AurumDBIterator } from '../src/iterator';
 
 describe('test', () => {
     let db: AurumDB;
@@ -68,6 +79,228 @@ describe('test', () => {
 
             await db.deleteStreamableIndex('test');
         });
+
+        it('read ranges', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            const writing = await index.write('fileA');
+            for (const chunk of ['hello ', 'wonderful ', 'world']) {
+                await promisify(writing.write.bind(writing))(chunk);
+            }
+            await promisify(writing.end.bind(writing))();
+            assert.strictEqual(await index.size('fileA'), 21);
+            assert.strictEqual(await streamToString(index.read('fileA', { start: 6, end: 14 })), 'wonderful');
+            assert.strictEqual(await streamToString(index.read('fileA', { start: 16 })), 'world');
+
+            await index.prepend('fileA', Buffer.from('oh '));
+            assert.strictEqual(await index.size('fileA'), 24);
+            assert.strictEqual(await streamToString(index.read('fileA', { end: 7 })), 'oh hello');
+            assert.strictEqual(await streamToString(index.read('fileA')), 'oh hello wonderful world');
+
+            const appending = index.append('fileA');
+            await promisify(appending.end.bind(appending))('!');
+            assert.strictEqual(await streamToString(index.read('fileA', { start: 19 })), 'world!');
+            assert.strictEqual((await index.getRecordState('fileA')).state, 'complete');
+
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('tail a recording', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            const token = new CancellationToken();
+            const writing = await index.write('live');
+            const state = await index.observeRecordState('live', token);
+            assert.strictEqual(state.value.state, 'recording');
+
+            const tailed = streamToString(index.tail('live'));
+            await promisify(writing.write.bind(writing))('first ');
+            await sleep(5);
+            await promisify(writing.end.bind(writing))('second');
+            assert.strictEqual(await tailed, 'first second');
+            assert.strictEqual(state.value.state, 'complete');
+            assert.strictEqual(state.value.size, 12);
+
+            token.cancel();
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('stop tailing when the record is deleted or the consumer stops', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            const writing = await index.write('live');
+            await promisify(writing.write.bind(writing))('first ');
+
+            const stopped = index.tail('live');
+            const closed = new Promise((resolve) => stopped.on('close', resolve));
+            for await (const chunk of stopped) {
+                assert.strictEqual(chunk.toString(), 'first ');
+                break;
+            }
+            await closed;
+
+            const tailed = streamToString(index.tail('live'));
+            await sleep(5);
+            await index.delete('live');
+            assert.strictEqual(await tailed, 'first ');
+
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('list records and enforce quota', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            for (const key of ['logs/a', 'logs/b', 'other']) {
+                const writing = await index.write(key);
+                await promisify(writing.end.bind(writing))('hello ' + key);
+            }
+            await index.setMetadata('logs/b', { owner: 'bob' });
+
+            const logs = await index.list({ prefix: 'logs/' });
+            assert.deepStrictEqual(
+                logs.map((record) => [record.key, record.state, record.size, record.metadata?.owner]),
+                [
+                    ['logs/a', 'complete', 12, undefined],
+                    ['logs/b', 'complete', 12, 'bob'],
+                ]
+            );
+            assert.deepStrictEqual(
+                (await index.list({ limit: 1 })).map((record) => record.key),
+                ['logs/a']
+            );
+            assert.strictEqual(await index.getTotalSize(), 35);
+
+            await index.delete('other');
+            assert.strictEqual(await index.getTotalSize(), 24);
+
+            await index.setQuota(30);
+            const writing = await index.write('big');
+            await promisify(writing.write.bind(writing))('12345');
+            const failed = once(writing, 'error');
+            writing.write('toolong');
+            assert.strictEqual((await failed)[0].name, 'AurumDBQuotaExceededError');
+            assert.strictEqual(await index.getTotalSize(), 29);
+
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('verify digests', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            const writing = await index.write('fileA');
+            await promisify(writing.write.bind(writing))('hello ');
+            assert.strictEqual((await index.verify('fileA')).valid, false);
+            await promisify(writing.end.bind(writing))('world');
+
+            const result = await index.verify('fileA');
+            assert.strictEqual(result.valid, true);
+            assert.strictEqual(result.expected, 'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9');
+
+            const chunkKey = 'fileA ' + (2 ** 48).toString(16).padStart(14, '0');
+            await (index as any).db.put(chunkKey, 'jello ', { valueEncoding: 'binary' });
+            assert.strictEqual((await index.verify('fileA')).valid, false);
+
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('leave destroyed writes incomplete', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            const writing = await index.write('fileA');
+            await promisify(writing.write.bind(writing))('hello ');
+            await new Promise((resolve) => writing.destroy().on('close', resolve));
+
+            const state = await index.getRecordState('fileA');
+            assert.strictEqual(state.state, 'recording');
+            assert.strictEqual(state.digest, undefined);
+            assert.strictEqual((await index.verify('fileA')).valid, false);
+
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('share content between records', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            await index.setContentAddressed(true);
+            for (const key of ['fileA', 'fileB']) {
+                const writing = await index.write(key);
+                await promisify(writing.write.bind(writing))('hello ');
+                await promisify(writing.end.bind(writing))('world');
+            }
+            assert.strictEqual(await index.getTotalSize(), 11);
+            assert.strictEqual((await index.verify('fileB')).valid, true);
+
+            await index.delete('fileA');
+            assert.strictEqual(await streamToString(index.read('fileB', { start: 6 })), 'world');
+            assert.strictEqual(await index.getTotalSize(), 11);
+
+            await index.delete('fileB');
+            assert.strictEqual(await index.getTotalSize(), 0);
+            assert.deepStrictEqual(await index.list(), []);
+
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('put and read buffers and iterables', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            await index.put('fileA', new Uint8Array([104, 105]));
+            assert.strictEqual((await index.getBuffer('fileA')).toString(), 'hi');
+            await assert.rejects(index.getBuffer('missing'));
+
+            await index.put(
+                'fileB',
+                (async function* () {
+                    yield Buffer.from('hello ');
+                    yield Buffer.from('world');
+                })()
+            );
+            assert.strictEqual((await index.getRecordState('fileB')).state, 'complete');
+            assert.strictEqual((await index.verify('fileB')).valid, true);
+            const chunks: string[] = [];
+            for await (const chunk of index.readIterable('fileB')) {
+                chunks.push(chunk.toString());
+            }
+            assert.deepStrictEqual(chunks, ['hello ', 'world']);
+
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('leave failed puts incomplete', async () => {
+            const index = await db.createStreamableIndex<any>('test');
+            await assert.rejects(
+                index.put(
+                    'fileA',
+                    (async function* () {
+                        yield Buffer.from('hello ');
+                        throw new Error('source failed');
+                    })()
+                ),
+                /source failed/
+            );
+            assert.strictEqual((await index.getRecordState('fileA')).state, 'recording');
+            assert.strictEqual((await index.verify('fileA')).valid, false);
+
+            await index.setQuota(8);
+            await assert.rejects(index.put('fileB', Buffer.from('toolong')), { name: 'AurumDBQuotaExceededError' });
+            assert.strictEqual((await index.getRecordState('fileB')).state, 'recording');
+            assert.strictEqual((await index.verify('fileB')).valid, false);
+
+            await db.deleteStreamableIndex('test');
+        });
+
+        it('write and read WHATWG streams', async function () {
+            if (typeof Response === 'undefined') {
+                // Response, ReadableStream and WritableStream are globals from Node 18 on
+                this.skip();
+            }
+            const index = await db.createStreamableIndex<any>('test');
+            const writable = await index.writableStream('fileA');
+            assert.strictEqual((await index.getRecordState('fileA')).state, 'recording');
+            await new Response('streamed').body.pipeTo(writable);
+            assert.strictEqual((await index.getRecordState('fileA')).state, 'complete');
+            assert.strictEqual(await new Response(index.readableStream('fileA', { start: 6 })).text(), 'ed');
+
+            const aborted = (await index.writableStream('fileB')).getWriter();
+            await aborted.write(Buffer.from('stream'));
+            await aborted.abort();
+            assert.strictEqual((await index.getRecordState('fileB')).state, 'recording');
+            assert.strictEqual((await index.verify('fileB')).valid, false);
+
+            await db.deleteStreamableIndex('test');
+        });
     });
 
     describe('index', () => {
@@ -111,6 +344,90 @@ describe('test', () => {
             await db.deleteIndex('test');
         });
 
+        it('iterate lazily and end early', async () => {
+            const index = await db.createIndex<string>('test');
+            for (const key of ['1', '2', '3', '4', '5']) {
+                await index.set(key, 'v' + key);
+            }
+
+            assert.deepStrictEqual(
+                await index
+                    .iterator()
+                    .filter((value, key) => key !== '2')
+                    .map((value) => value.toUpperCase())
+                    .take(3)
+                    .toArray(),
+                [
+                    { key: '1', value: 'V1' },
+                    { key: '3', value: 'V3' },
+                    { key: '4', value: 'V4' },
+                ]
+            );
+
+            const seeking = index.iterator();
+            seeking.seek('3');
+            assert.deepStrictEqual(await seeking.take(2).toArray(), [
+                { key: '3', value: 'v3' },
+                { key: '4', value: 'v4' },
+            ]);
+
+            const keys = [];
+            for await (const key of index.iterator().keys()) {
+                keys.push(key);
+            }
+            assert.deepStrictEqual(keys, ['1', '2', '3', '4', '5']);
+
+            const range = { gte: '!testindex!1', lte: '!testindex!5' };
+            const values = [];
+            for await (const value of db.iterator(range).values()) {
+                values.push(value);
+            }
+            assert.strictEqual(values.length, 5);
+            assert.deepStrictEqual(
+                values,
+                (await db.iterator(range).toArray()).map((entry) => entry.value)
+            );
+
+            const projections = [];
+            const project = (projection) => {
+                projections.push(projection);
+                let read = false;
+                return {
+                    next: (cb) => {
+                        if (read) {
+                            return cb();
+                        }
+                        read = true;
+                        cb(undefined, projection.keys === false ? undefined : 'key', projection.values === false ? undefined : 1);
+                    },
+                    end: (cb) => cb(),
+                };
+            };
+            for await (const key of new AurumDBIterator<number>(project).keys()) {
+                assert.strictEqual(key, 'key');
+            }
+            for await (const value of new AurumDBIterator<number>(project).values()) {
+                assert.strictEqual(value, 1);
+            }
+            assert.deepStrictEqual(projections, [{ values: false }, { keys: false }]);
+
+            let ended = 0;
+            const counting = new AurumDBIterator<number>({
+                next: (cb) => cb(undefined, 'key', 1),
+                end: (cb) => {
+                    ended++;
+                    cb();
+                },
+            });
+            for await (const value of counting.values()) {
+                assert.strictEqual(value, 1);
+                break;
+            }
+            assert.strictEqual(ended, 1);
+
+            await db.deleteIndex('test');
+        });
+
         it('create nested index', async () => {
             const index = await db.createIndex('test');
             const subIndex = await index.createIndex('subIndex');
@@ -127,6 +444,44 @@ describe('test', () => {
             assert((await db.hasIndex('test')) === false);
         });
 
+        it('skip nested structures when iterating', async () => {
+            const index = await db.createIndex<string>('test');
+            await index.set('a', 'one');
+            const subIndex = await index.createIndex('sub');
+            await subIndex.set('x', 'two');
+            await (await index.createLinkedCollection('col')).push('three');
+
+            assert.deepStrictEqual(await index.iterator().toArray(), [{ key: 'a', value: 'one' }]);
+
+            const entries = await index.iterator({ includeNested: true }).toArray();
+            assert.deepStrictEqual(
+                entries.map(({ key, value }) => [key, typeof value === 'string' ? value : value.type]),
+                [
+                    ['!collinked!', 'linked'],
+                    ['!subindex!', 'index'],
+                    ['a', 'one'],
+                ]
+            );
+            const nested = entries[1].value;
+            assert(typeof nested !== 'string' && nested.type === 'index');
+            assert.strictEqual(await nested.handle.get('x'), 'two');
+
+            const token = new CancellationToken();
+            const observed = await index.observeEntireIndex(token);
+            const observedNested = await index.observeEntireIndex(token, undefined, { includeNested: true });
+            await index.createIndex('other');
+            await index.set('b', 'four');
+            await sleep(5);
+            assert.deepStrictEqual(Array.from(observed.keys()), ['a', 'b']);
+            assert.deepStrictEqual(Array.from(observedNested.keys()).sort(), ['!collinked!', '!otherindex!', '!subindex!', 'a', 'b']);
+
+            await index.deleteIndex('other');
+            assert.strictEqual(observedNested.has('!otherindex!'), false);
+
+            token.cancel();
+            await db.deleteIndex('test');
+        });
+
         it('can create record with same key as sub index without issues', async () => {
             const index = await db.createIndex('test');
             const subIndex = await index.createIndex('subIndex');
@@ -192,6 +547,321 @@ describe('test', () => {
             await db.deleteIndex('test');
         });
 
+        it('secondary index', async () => {
+            const index = await db.createIndex<{ name: string; tags: string[] }>('test', 'json');
+            await index.set('old', { name: 'old', tags: ['a'] });
+            index.createSecondaryIndex('tag', (v) => v.tags);
+
+            assert.deepStrictEqual(await index.findBy('tag', 'a'), []);
+            await index.rebuildSecondaryIndex('tag');
+            assert.deepStrictEqual(await index.findBy('tag', 'a'), [{ key: 'old', value: { name: 'old', tags: ['a'] } }]);
+
+            await index.set('x', { name: 'x', tags: ['a', 'b'] });
+            await index.set('y', { name: 'y', tags: ['b'] });
+            assert.deepStrictEqual(
+                (await index.findBy('tag', 'b')).map((e) => e.key),
+                ['x', 'y']
+            );
+
+            const token = new CancellationToken();
+            const mds = await index.observeBy('tag', 'a', token);
+            assert.deepStrictEqual(Array.from(mds.keys()).sort(), ['old', 'x']);
+
+            await index.set('x', { name: 'x', tags: ['b'] });
+            await index.set('y', { name: 'y', tags: ['a'] });
+            assert.deepStrictEqual(Array.from(mds.keys()).sort(), ['old', 'y']);
+            assert.deepStrictEqual(
+                (await index.findBy('tag', 'a')).map((e) => e.key),
+                ['old', 'y']
+            );
+
+            await index.delete('old');
+            assert.deepStrictEqual(Array.from(mds.keys()), ['y']);
+            assert.deepStrictEqual(
+                (await index.findBy('tag', 'a')).map((e) => e.key),
+                ['y']
+            );
+
+            await index.clear();
+            assert.deepStrictEqual(Array.from(mds.keys()), []);
+            assert.deepStrictEqual(await index.findBy('tag', 'b'), []);
+            token.cancel();
+
+            await db.deleteIndex('test');
+        });
+
+        it('query index', async () => {
+            const index = await db.createIndex<number>('test', 'json');
+            await index.set('a1', 1);
+            await index.set('a2', 2);
+            await index.set('a3', 3);
+            await index.set('b1', 4);
+            await index.createIndex('nested');
+
+            assert.deepStrictEqual(
+                (await index.query({ prefix: 'a' })).map((e) => e.key),
+                ['a1', 'a2', 'a3']
+            );
+            assert.deepStrictEqual(await index.query({ prefix: 'a', reverse: true, limit: 2 }), [
+                { key: 'a3', value: 3 },
+                { key: 'a2', value: 2 },
+            ]);
+            assert.deepStrictEqual(
+                (await index.query({ gt: 'a1', lte: 'b1' })).map((e) => e.key),
+                ['a2', 'a3', 'b1']
+            );
+            assert.deepStrictEqual(await index.query({ prefix: 'c' }), []);
+
+            await db.deleteIndex('test');
+        });
+
+        it('observe range', async () => {
+            const index = await db.createIndex<number>('test', 'json');
+            await index.set('a1', 1);
+            await index.set('b1', 2);
+
+            const token = new CancellationToken();
+            const mds = await index.observeRange({ prefix: 'a' }, token);
+            assert.deepStrictEqual(Array.from(mds.keys()), ['a1']);
+
+            await index.set('a2', 3);
+            await index.set('b2', 4);
+            assert.deepStrictEqual(Array.from(mds.keys()), ['a1', 'a2']);
+            assert.strictEqual(mds.get('a2'), 3);
+
+            await index.delete('a1');
+            assert.deepStrictEqual(Array.from(mds.keys()), ['a2']);
+
+            token.cancel();
+            await index.set('a3', 5);
+            assert.deepStrictEqual(Array.from(mds.keys()), ['a2']);
+
+            await db.deleteIndex('test');
+        });
+
+        it('leave nested structures out of observed ranges', async () => {
+            const index = await db.createIndex<number>('test', 'json');
+            const token = new CancellationToken();
+            const mds = await index.observeRange({ gte: '!', lt: '~' }, token);
+
+            await index.createIndex('child');
+            const collection = await index.createOrderedCollection<number>('col');
+            await collection.push(1);
+            await index.set('a', 1);
+            assert.deepStrictEqual(Array.from(mds.keys()), ['a']);
+
+            token.cancel();
+            await db.deleteIndex('test');
+        });
+
+        it('observe writes through other handles', async () => {
+            await db.createIndex<string>('test');
+            const token = new CancellationToken();
+            const ds = await (await db.getIndex<string>('test')).observeKey('hello', token);
+            await (await db.getIndex<string>('test')).set('hello', 'world');
+            assert.strictEqual(ds.value, 'world');
+
+            token.cancel();
+            await db.deleteIndex('test');
+        });
+
+        it('restore encoding and tags from metadata', async () => {
+            await db.createIndex<any>('test', 'json');
+            await db.setTags('test', { owner: 'billing' });
+            (db as any).handles.clear();
+
+            const index = await db.getIndex<any>('test');
+            await index.set('a', { nested: true });
+            assert.deepStrictEqual(await index.get('a'), { nested: true });
+
+            const metadata = await db.getMetadata('test');
+            assert.strictEqual(metadata.type, 'index');
+            assert.strictEqual(metadata.encoding, 'json');
+            assert.strictEqual(metadata.schemaVersion, 0);
+            assert.deepStrictEqual(metadata.tags, { owner: 'billing' });
+
+            await db.deleteIndex('test');
+        });
+
+        it('upgrade legacy metadata', async () => {
+            const internal: LevelUp = (db as any).db;
+            await internal.put('!testindex!' + META_KEY, '2020-01-01T00:00:00.000Z', { valueEncoding: 'json' });
+            await internal.put('!testordered!' + META_KEY, 2, { valueEncoding: 'json' });
+            await internal.put('!testordered!' + '0000000000000000', 'a');
+            await internal.put('!testordered!' + '0000000000000001', 'b');
+
+            assert.strictEqual((await db.getMetadata('test')).createdAt, '2020-01-01T00:00:00.000Z');
+            const collection = await db.getOrderedCollection<string>('test');
+            assert.strictEqual(await collection.length(), 2);
+            assert.strictEqual((await db.getMetadata('test', 'ordered')).type, 'ordered');
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('migrate values', async () => {
+            const index = await db.createIndex<any>('test', 'json');
+            await index.set('a', { name: 'Ann Smith' });
+            await index.set('b', { name: 'Bob Jones' });
+
+            await db.migrate<{ name: string }, { first: string; last: string }>('test', {
+                from: 0,
+                to: 1,
+                transform: ({ name }) => ({ first: name.split(' ')[0], last: name.split(' ')[1] }),
+            });
+            assert.deepStrictEqual(await index.get('b'), { first: 'Bob', last: 'Jones' });
+            assert.strictEqual((await db.getMetadata('test')).schemaVersion, 1);
+            await assert.rejects(db.migrate('test', { from: 0, to: 1, transform: (v) => v }), /at version 1/);
+
+            await db.deleteIndex('test');
+        });
+
+        it('compare and set', async () => {
+            const index = await db.createIndex<number>('test', 'json');
+            assert.deepStrictEqual(await index.getWithVersion('a'), { value: undefined, version: 0 });
+
+            assert.strictEqual(await index.compareAndSet('a', 0, 1), 1);
+            await index.set('a', 2);
+            assert.deepStrictEqual(await index.getWithVersion('a'), { value: 2, version: 2 });
+
+            await assert.rejects(index.compareAndSet('a', 1, 3), (e: any) => {
+                assert(e instanceof AurumDBVersionConflictError);
+                assert.strictEqual(e.key, 'a');
+                assert.strictEqual(e.actualVersion, 2);
+                return true;
+            });
+            assert.strictEqual(await index.get('a'), 2);
+
+            await index.delete('a');
+            assert.strictEqual(await index.getVersion('a'), 0);
+
+            await db.deleteIndex('test');
+        });
+
+        it('update retries on conflict', async () => {
+            const index = await db.createIndex<number>('test', 'json');
+            await index.set('counter', 0);
+
+            let calls = 0;
+            const result = await index.update('counter', async (value) => {
+                calls++;
+                if (calls === 1) {
+                    await index.set('counter', 10);
+                }
+                return value + 1;
+            });
+            assert.strictEqual(result, 11);
+            assert.strictEqual(calls, 2);
+            assert.strictEqual(await index.get('counter'), 11);
+
+            await Promise.all([index.update('counter', (v) => v + 1), index.update('counter', (v) => v + 1)]);
+            assert.strictEqual(await index.get('counter'), 13);
+
+            await db.deleteIndex('test');
+        });
+
+        it('observe key version', async () => {
+            const index = await db.createIndex<string>('test');
+            const token = new CancellationToken();
+            const ds = await index.observeKey('hello', token);
+            assert.strictEqual(ds.version.value, 0);
+
+            await index.set('hello', 'world');
+            assert.strictEqual(ds.value, 'world');
+            assert.strictEqual(ds.version.value, 1);
+
+            await index.set('hello', 'world2');
+            assert.strictEqual(ds.version.value, 2);
+
+            await index.delete('hello');
+            assert.strictEqual(ds.version.value, 0);
+
+            token.cancel();
+            await db.deleteIndex('test');
+        });
+
+        it('expire keys', async () => {
+            const index = await db.createIndex<string>('test');
+            const token = new CancellationToken();
+            const ds = await index.observeKey('session', token);
+            const all = await index.observeEntireIndex(token);
+
+            await index.set('session', 'abc', { ttl: 20 });
+            await index.set('permanent', 'def');
+            assert.strictEqual(ds.value, 'abc');
+            assert(typeof (await index.getExpiry('session')) === 'number');
+            assert.strictEqual(await index.getExpiry('permanent'), undefined);
+
+            await sleep(60);
+            assert.strictEqual(await index.has('session'), false);
+            await assert.rejects(index.get('session'), (e: any) => e.notFound === true);
+            assert.strictEqual(ds.value, undefined);
+            assert.deepStrictEqual(Array.from(all.keys()), ['permanent']);
+
+            await index.setDefaultTtl(20);
+            await index.set('cached', 'ghi');
+            assert.strictEqual(await index.has('cached'), true);
+            await sleep(60);
+            assert.strictEqual(await index.has('cached'), false);
+            assert.strictEqual((await db.getMetadata('test')).defaultTtl, 20);
+
+            await index.set('closed', 'jkl', { ttl: 10 });
+            await index.close();
+            await sleep(30);
+            assert.strictEqual(await index.has('closed'), false);
+
+            token.cancel();
+            await db.deleteIndex('test');
+        });
+
+        it('skip expired keys when finding by secondary key', async () => {
+            const index = await db.createIndex<{ tag: string }>('test', 'json');
+            index.createSecondaryIndex('tag', (v) => v.tag);
+            await index.set('s1', { tag: 'a' }, { ttl: 10 });
+            await index.set('s2', { tag: 'a' });
+            // Closing stops the sweeper, so s1 expires without being removed
+            await index.close();
+            await sleep(30);
+
+            assert.deepStrictEqual(await index.findBy('tag', 'a'), [{ key: 's2', value: { tag: 'a' } }]);
+            const token = new CancellationToken();
+            assert.deepStrictEqual(Array.from((await index.observeBy('tag', 'a', token)).keys()), ['s2']);
+
+            token.cancel();
+            await db.deleteIndex('test');
+        });
+
+        it('validate values with a json schema', async () => {
+            const schema: AurumDBJsonSchema = {
+                type: 'object',
+                required: ['name'],
+                properties: { name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+            };
+            await db.createIndex<any>('test', 'json', schema);
+            const index = await db.getIndex<any>('test');
+            await index.set('a', { name: 'a', tags: ['x'] });
+
+            await assert.rejects(index.set('b', { name: 'b', tags: ['x', 1] }), (e: any) => {
+                assert(e instanceof AurumDBValidationError);
+                assert.strictEqual(e.key, 'b');
+                assert.strictEqual(e.path, '/tags/1');
+                return true;
+            });
+            await assert.rejects(
+                db.transaction(async (tx) => (await tx.getIndex<any>('test')).set('c', {})),
+                (e: any) => e instanceof AurumDBValidationError && e.path === '/name'
+            );
+            assert((await index.has('b')) === false);
+            assert((await index.has('c')) === false);
+
+            await index.clear();
+            await index.set('a', { name: 'a' });
+            await index.setValidator((value) => (value.name.length > 1 ? undefined : { path: '/name', message: 'too short' }));
+            assert.deepStrictEqual(await index.validateAll(), [{ key: 'a', path: '/name', message: 'too short' }]);
+
+            await db.deleteIndex('test');
+        });
+
         it('observe entire index', async () => {
             const index = await db.createIndex('test');
             const token = new CancellationToken();
@@ -329,6 +999,44 @@ describe('test', () => {
             await assertDbEmpty();
         });
 
+        it('iterate in numeric order', async () => {
+            const collection = await db.createOrderedCollection<number>('test', 'json');
+            const items = [];
+            for (let i = 0; i < 25; i++) {
+                items.push(i);
+            }
+            await collection.push(...items);
+
+            const visited = [];
+            await collection.forEach((item, index) => {
+                assert.strictEqual(item, index);
+                visited.push(item);
+            });
+            assert.deepStrictEqual(visited, items);
+            assert.deepStrictEqual(await collection.slice(8, 12), [8, 9, 10, 11]);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('migrate legacy keys', async () => {
+            const collection = await db.createOrderedCollection<number>('test', 'json');
+            const internal: LevelUp = (collection as any).db;
+            for (let i = 0; i < 12; i++) {
+                await internal.put(i.toString(), i * 2);
+            }
+            await internal.put(LENGTH_KEY, 12, { valueEncoding: 'json' });
+
+            assert((await collection.migrateLegacyKeys()) === true);
+            assert((await collection.migrateLegacyKeys()) === false);
+            assert.strictEqual(await collection.length(), 12);
+            assert.strictEqual(await collection.get(11), 22);
+            assert.deepStrictEqual(await collection.slice(9, 12), [18, 20, 22]);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
         it('slice collection', async () => {
             const collection = await db.createOrderedCollection<number>('test', 'json');
 
@@ -361,6 +1069,149 @@ describe('test', () => {
             await db.clear();
             await assertDbEmpty();
         });
+
+        it('push through multiple handles', async () => {
+            await db.createOrderedCollection<string>('test');
+            const a = await db.getOrderedCollection<string>('test');
+            const b = await db.createOrGetOrderedCollection<string>('test');
+            await Promise.all([a.push('a1'), b.push('b1'), a.push('a2'), b.push('b2')]);
+            assert.strictEqual(await a.length(), 4);
+            assert.deepStrictEqual(await b.toArray(), ['a1', 'b1', 'a2', 'b2']);
+
+            await db.deleteOrderedCollection('test');
+        });
+
+        it('validate items', async () => {
+            const collection = await db.createOrderedCollection<number>('test', 'json', { type: 'integer', minimum: 0 });
+            await collection.push(1, 2);
+            await assert.rejects(collection.push(3, -1), (e: any) => e instanceof AurumDBValidationError && e.key === '3');
+            await assert.rejects(collection.insert(0, 1.5), AurumDBValidationError);
+            await assert.rejects(collection.set(0, -1), AurumDBValidationError);
+            assert.deepStrictEqual(await collection.toArray(), [1, 2]);
+
+            await collection.setValidator({ type: 'integer', minimum: 2 });
+            assert.deepStrictEqual(await collection.validateAll(), [{ key: '0', path: '', message: 'less than 2' }]);
+
+            await db.deleteOrderedCollection('test');
+        });
+
+        it('insert, removeAt and splice', async () => {
+            const collection = await db.createOrderedCollection<number>('test', 'json');
+
+            await collection.push(1, 2, 5);
+            await collection.insert(2, 3, 4);
+            assert.deepStrictEqual(await collection.toArray(), [1, 2, 3, 4, 5]);
+
+            assert.deepStrictEqual(await collection.removeAt(0, 2), [1, 2]);
+            assert.deepStrictEqual(await collection.toArray(), [3, 4, 5]);
+            assert.strictEqual(await collection.length(), 3);
+
+            assert.deepStrictEqual(await collection.splice(1, 1, 10, 11), [4]);
+            assert.deepStrictEqual(await collection.toArray(), [3, 10, 11, 5]);
+            assert.deepStrictEqual(await collection.splice(2, 10), [11, 5]);
+            assert.deepStrictEqual(await collection.toArray(), [3, 10]);
+            await assert.rejects(collection.insert(5, 1));
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('observe splice', async () => {
+            const collection = await db.createOrderedCollection<number>('test', 'json');
+            await collection.push(1, 2, 3, 4, 5);
+
+            const token = new CancellationToken();
+            const ads = await collection.observeEntireCollection(token);
+            const lastTwo = await collection.observeLastNElements(2, token);
+            const at = await collection.observeAt(3, token);
+            const length = await collection.observeLength(token);
+
+            await collection.removeAt(1);
+            assert.deepStrictEqual(ads.getData(), [1, 3, 4, 5]);
+            assert.deepStrictEqual(lastTwo.getData(), [4, 5]);
+            assert.strictEqual(at.value, 5);
+            assert.strictEqual(length.value, 4);
+
+            await collection.insert(3, 10);
+            assert.deepStrictEqual(ads.getData(), [1, 3, 4, 10, 5]);
+            assert.deepStrictEqual(lastTwo.getData(), [4, 10, 5]);
+            assert.strictEqual(at.value, 10);
+
+            await collection.splice(0, 3);
+            assert.deepStrictEqual(ads.getData(), [10, 5]);
+            assert.deepStrictEqual(lastTwo.getData(), [10, 5]);
+            assert.strictEqual(at.value, undefined);
+            assert.strictEqual(length.value, 2);
+
+            token.cancel();
+            await db.clear();
+            await assertDbEmpty();
+        });
+    });
+
+    describe('transaction', () => {
+        it('commit writes to multiple structures at once', async () => {
+            const index = await db.createIndex<number>('test', 'json');
+            const collection = await db.createOrderedCollection<string>('audit', 'json');
+            await collection.push('created');
+
+            const token = new CancellationToken();
+            const ds = await index.observeKey('balance', token);
+            const ads = await collection.observeEntireCollection(token);
+            const length = await collection.observeLength(token);
+
+            const result = await db.transaction(async (tx) => {
+                const txIndex = await tx.getIndex<number>('test', 'json');
+                const txCollection = await tx.getOrderedCollection<string>('audit', 'json');
+                txIndex.set('balance', 100);
+                txCollection.push('deposit 100');
+                assert.strictEqual(await txIndex.get('balance'), 100);
+                assert.strictEqual(await txCollection.length(), 2);
+                await txCollection.set(0, 'opened');
+
+                assert.strictEqual(ds.value, undefined);
+                assert.deepStrictEqual(ads.getData(), ['created']);
+                assert((await index.has('balance')) === false);
+                return 'done';
+            });
+
+            assert.strictEqual(result, 'done');
+            assert.strictEqual(await index.get('balance'), 100);
+            assert.deepStrictEqual(await collection.toArray(), ['opened', 'deposit 100']);
+            assert.strictEqual(ds.value, 100);
+            assert.deepStrictEqual(ads.getData(), ['opened', 'deposit 100']);
+            assert.strictEqual(length.value, 2);
+
+            token.cancel();
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('rollback on error', async () => {
+            const index = await db.createIndex<number>('test', 'json');
+            const collection = await db.createOrderedCollection<string>('audit', 'json');
+
+            const token = new CancellationToken();
+            const mds = await index.observeEntireIndex(token);
+
+            await assert.rejects(
+                db.transaction(async (tx) => {
+                    (await tx.getIndex<number>('test', 'json')).set('balance', 100);
+                    (await tx.getOrderedCollection<string>('audit', 'json')).push('deposit 100');
+                    throw new Error('abort');
+                }),
+                /abort/
+            );
+
+            assert((await index.has('balance')) === false);
+            assert.strictEqual(await collection.length(), 0);
+            assert.strictEqual(mds.has('balance'), false);
+            await assert.rejects(db.transaction(async (tx) => tx.getIndex('missing')));
+
+            token.cancel();
+            await db.clear();
+            await assertDbEmpty();
+        });
     });
 
     describe('linked collection', () => {
@@ -374,6 +1225,621 @@ describe('test', () => {
             assert((await db.hasLinkedCollection('test')) === false);
             await assertDbEmpty();
         });
+
+        it('push, pop, shift and unshift', async () => {
+            const collection = await db.createLinkedCollection<number>('test');
+
+            collection.push(2);
+            collection.push(3);
+            collection.unshift(1);
+            assert.deepStrictEqual(await collection.toArray(), [1, 2, 3]);
+            assert.strictEqual(await collection.length(), 3);
+            assert.strictEqual((await collection.first()).value, 1);
+            assert.strictEqual((await collection.last()).value, 3);
+
+            assert.strictEqual(await collection.pop(), 3);
+            assert.strictEqual(await collection.shift(), 1);
+            assert.strictEqual(await collection.pop(), 2);
+            assert.strictEqual(await collection.pop(), undefined);
+            assert.strictEqual(await collection.length(), 0);
+            assert.strictEqual(await collection.first(), undefined);
+
+            await collection.clear();
+            assert((await db.hasLinkedCollection('test')) === true);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('insert and remove in the middle', async () => {
+            const collection = await db.createLinkedCollection<string>('test');
+
+            const a = await collection.push('a');
+            const c = await collection.push('c');
+            await collection.insertAfter(a, 'b');
+            await collection.insertBefore(a, 'start');
+            await collection.insertAfter(c, 'end');
+            assert.deepStrictEqual(await collection.toArray(), ['start', 'a', 'b', 'c', 'end']);
+
+            assert.strictEqual(await collection.remove(c), 'c');
+            assert.strictEqual(await collection.remove(a), 'a');
+            assert.deepStrictEqual(await collection.toArray(), ['start', 'b', 'end']);
+            assert.strictEqual(await collection.length(), 3);
+            await assert.rejects(collection.remove(a));
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('iterate over linked collection in both directions', async () => {
+            const collection = await db.createLinkedCollection<number>('test');
+
+            const ids = [];
+            for (let i = 0; i < 12; i++) {
+                ids.push(await collection.push(i));
+            }
+
+            let i = 0;
+            for await (const { key, value } of collection.iterator().asGenerator()) {
+                assert.strictEqual(key, ids[i]);
+                assert.strictEqual(value, i++);
+            }
+            assert.strictEqual(i, 12);
+
+            for await (const { value } of collection.iterator(true).asGenerator()) {
+                assert.strictEqual(value, --i);
+            }
+            assert.strictEqual(i, 0);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('observe linked collection', async () => {
+            const collection = await db.createLinkedCollection<number>('test');
+            await collection.push(1);
+            const three = await collection.push(3);
+
+            const token = new CancellationToken();
+            const ads = await collection.observeEntireCollection(token);
+            const length = await collection.observeLength(token);
+            const head = await collection.observeHead(token);
+            const tail = await collection.observeTail(token);
+
+            assert.deepStrictEqual(ads.getData(), [1, 3]);
+            assert.strictEqual(length.value, 2);
+            assert.strictEqual(head.value, 1);
+            assert.strictEqual(tail.value, 3);
+
+            await collection.insertBefore(three, 2);
+            await collection.unshift(0);
+            assert.deepStrictEqual(ads.getData(), [0, 1, 2, 3]);
+            assert.strictEqual(length.value, 4);
+            assert.strictEqual(head.value, 0);
+
+            await collection.remove(three);
+            assert.deepStrictEqual(ads.getData(), [0, 1, 2]);
+            assert.strictEqual(tail.value, 2);
+
+            await collection.clear();
+            assert.deepStrictEqual(ads.getData(), []);
+            assert.strictEqual(length.value, 0);
+            assert.strictEqual(head.value, undefined);
+            assert.deepStrictEqual(await collection.toArray(), []);
+            assert((await db.hasLinkedCollection('test')) === true);
+
+            token.cancel();
+            await collection.push(5);
+            assert.deepStrictEqual(ads.getData(), []);
+            assert.strictEqual(length.value, 0);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+    });
+
+    describe('catalog', () => {
+        it('list structures', async () => {
+            const users = await db.createIndex('users');
+            await users.createOrderedCollection('history');
+            await db.createLinkedCollection('queue');
+            await db.createStreamableIndex('files');
+
+            const structures = await db.listStructures();
+            assert.deepStrictEqual(
+                structures.map(({ name, type, children }) => ({ name, type, children: children.map((c) => c.name + ':' + c.type) })),
+                [
+                    { name: 'files', type: 'streamableIndex', children: [] },
+                    { name: 'queue', type: 'linked', children: [] },
+                    { name: 'users', type: 'index', children: ['history:ordered'] },
+                ]
+            );
+            assert(structures.every((s) => typeof s.createdAt === 'string'));
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('describe structure', async () => {
+            const index = await db.createIndex<string>('test');
+            await index.set('a', 'hello');
+            await index.set('b', 'world');
+            await index.createIndex('nested');
+
+            const description = await db.describe('test');
+            assert.strictEqual(description.entryCount, 2);
+            assert.strictEqual(description.metadata.type, 'index');
+            assert(description.approximateSize > 20);
+
+            const collection = await db.createOrderedCollection<number>('test', 'json');
+            await collection.push(1, 2, 3);
+            assert.strictEqual((await db.describe('test', 'ordered')).entryCount, 3);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('observe catalog', async () => {
+            const token = new CancellationToken();
+            const catalog = await db.observeCatalog(token);
+            assert.strictEqual(catalog.length.value, 0);
+
+            await db.createIndex('test');
+            await db.createOrderedCollection('test');
+            assert.deepStrictEqual(
+                catalog.getData().map((s) => s.type),
+                ['index', 'ordered']
+            );
+
+            await db.deleteIndex('test');
+            assert.deepStrictEqual(
+                catalog.getData().map((s) => s.type),
+                ['ordered']
+            );
+
+            token.cancel();
+            await db.clear();
+            await assertDbEmpty();
+        });
+    });
+
+    describe('snapshot', () => {
+        it('read consistent state while writing', async () => {
+            const index = await db.createIndex<number>('test', 'json');
+            await index.set('a', 1);
+            const nested = await index.createOrderedCollection<number>('nested', 'json');
+            await nested.push(1, 2);
+
+            const snapshot = db.snapshot();
+            await index.set('a', 2);
+            await index.set('b', 3);
+            await nested.push(3);
+
+            const snapshotIndex = await snapshot.getIndex<number>('test');
+            assert.strictEqual(await snapshotIndex.get('a'), 1);
+            assert.strictEqual(await snapshotIndex.has('b'), false);
+            const keys = [];
+            for await (const { key } of snapshotIndex.iterator().asGenerator()) {
+                if (!key.startsWith('!')) {
+                    keys.push(key);
+                }
+            }
+            assert.deepStrictEqual(keys, ['a']);
+
+            const snapshotCollection = await snapshotIndex.getOrderedCollection<number>('nested');
+            assert.strictEqual(await snapshotCollection.length(), 2);
+            assert.deepStrictEqual(await snapshotCollection.toArray(), [1, 2]);
+            assert.strictEqual(await nested.length(), 3);
+
+            await snapshot.release();
+            await assert.rejects(() => snapshotIndex.get('a'), /released/);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('release through cancellation token', async () => {
+            await db.createIndex('test');
+            const token = new CancellationToken();
+            const snapshot = db.snapshot(token);
+            assert.strictEqual(await snapshot.hasIndex('test'), true);
+            token.cancel();
+            await assert.rejects(() => snapshot.hasIndex('test'), /released/);
+
+            await db.deleteIndex('test');
+            await assertDbEmpty();
+        });
+    });
+
+    describe('export and import', () => {
+        it('round trip all structure types', async () => {
+            const users = await db.createIndex<any>('users', 'json');
+            await users.set('alice', { age: 30 });
+            await db.setTags('users', { owner: 'team' });
+            const history = await users.createOrderedCollection<string>('history', 'json');
+            await history.push('login', 'logout');
+            const queue = await db.createLinkedCollection<number>('queue');
+            await queue.push(1);
+            await queue.push(2);
+            const files = await db.createStreamableIndex<any>('files');
+            const writing = await files.write('fileA');
+            await promisify(writing.end.bind(writing))(Buffer.from([0, 1, 2, 255]));
+            await files.setMetadata('fileA', { mime: 'binary' });
+
+            const output = new PassThrough();
+            const chunks: Buffer[] = [];
+            output.on('data', (chunk) => chunks.push(chunk));
+            await db.exportTo(output);
+            const exported = Buffer.concat(chunks).toString('utf8');
+            await db.clear();
+
+            await db.importFrom(Readable.from([exported]));
+            assert.deepStrictEqual(await (await db.getIndex('users')).get('alice'), { age: 30 });
+            assert.deepStrictEqual((await db.getMetadata('users')).tags, { owner: 'team' });
+            assert.deepStrictEqual(await (await (await db.getIndex('users')).getOrderedCollection('history')).slice(0, 2), ['login', 'logout']);
+            assert.deepStrictEqual(await (await db.getLinkedCollection('queue')).toArray(), [1, 2]);
+            const imported = await db.getStreamableIndex<any>('files');
+            const reading = imported.read('fileA');
+            const data: Buffer[] = [];
+            for await (const chunk of reading) {
+                data.push(chunk);
+            }
+            assert.deepStrictEqual(Buffer.concat(data), Buffer.from([0, 1, 2, 255]));
+            assert.strictEqual((await imported.getMetadata('fileA')).mime, 'binary');
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('round trip validation schemas', async () => {
+            const schema: AurumDBJsonSchema = { type: 'object', required: ['name'] };
+            const users = await db.createIndex<any>('users', 'json', schema);
+            await users.set('alice', { name: 'alice' });
+            await db.createOrderedCollection<number>('scores', 'json', { type: 'integer' });
+            assert.deepStrictEqual((await db.describe('users')).metadata.schema, schema);
+
+            const output = new PassThrough();
+            const chunks: Buffer[] = [];
+            output.on('data', (chunk) => chunks.push(chunk));
+            await db.exportTo(output);
+            const exported = Buffer.concat(chunks).toString('utf8');
+            await db.clear();
+
+            await db.importFrom(Readable.from([exported]));
+            assert.deepStrictEqual((await db.getMetadata('users')).schema, schema);
+            await assert.rejects((await db.getIndex<any>('users')).set('bob', {}), AurumDBValidationError);
+            await assert.rejects((await db.getOrderedCollection<any>('scores')).push('high'), AurumDBValidationError);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('merge and replace', async () => {
+            const collection = await db.createOrderedCollection<number>('test', 'json');
+            await collection.push(1, 2);
+            const output = new PassThrough();
+            const chunks: Buffer[] = [];
+            output.on('data', (chunk) => chunks.push(chunk));
+            await db.exportTo(output, { structures: ['test'] });
+            const exported = Buffer.concat(chunks).toString('utf8');
+
+            await db.importFrom(Readable.from([exported]), { mode: 'merge' });
+            assert.deepStrictEqual(await collection.slice(0, 4), [1, 2, 1, 2]);
+            assert.strictEqual(await collection.length(), 4);
+
+            await db.importFrom(Readable.from([exported]), { mode: 'replace' });
+            const replaced = await db.getOrderedCollection<number>('test');
+            assert.strictEqual(await replaced.length(), 2);
+            assert.deepStrictEqual(await replaced.slice(0, 2), [1, 2]);
+
+            await db.deleteOrderedCollection('test');
+            await assertDbEmpty();
+        });
+    });
+
+    describe('codecs', () => {
+        it('round trip rich values', async () => {
+            const value = {
+                date: new Date(1600000000123),
+                map: new Map<any, any>([
+                    [1, 'one'],
+                    ['two', [2]],
+                ]),
+                set: new Set(['a', 'b']),
+                big: BigInt('9007199254740993'),
+                buffer: Buffer.from([0, 1, 255]),
+            };
+            for (const encoding of ['rich-json', 'msgpack', 'cbor']) {
+                const index = await db.createIndex<any>(encoding, encoding);
+                await index.set('value', value);
+                const read = await index.get('value');
+                assert.strictEqual(read.date.getTime(), value.date.getTime());
+                assert.deepStrictEqual(Array.from(read.map), Array.from(value.map));
+                assert.deepStrictEqual(Array.from(read.set), Array.from(value.set));
+                assert.strictEqual(read.big, value.big);
+                assert.deepStrictEqual(Buffer.from(read.buffer), value.buffer);
+            }
+
+            const snapshot = db.snapshot();
+            assert.deepStrictEqual((await (await snapshot.getIndex<any>('rich-json')).get('value')).set, value.set);
+            await snapshot.release();
+
+            const output = new PassThrough();
+            const chunks: Buffer[] = [];
+            output.on('data', (chunk) => chunks.push(chunk));
+            await db.exportTo(output, { structures: ['msgpack'] });
+            await db.deleteIndex('msgpack');
+            await db.importFrom(Readable.from([Buffer.concat(chunks).toString('utf8')]));
+            assert.strictEqual((await (await db.getIndex<any>('msgpack')).get('value')).big, value.big);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('register custom codec', async () => {
+            db.registerCodec<string>('reversed', {
+                type: 'utf8',
+                encode: (value) => value.split('').reverse().join(''),
+                decode: (data) => data.toString().split('').reverse().join(''),
+            });
+            assert.throws(() => db.registerCodec('json', { type: 'utf8', encode: String, decode: String }));
+            await assert.rejects(db.createIndex('test', 'unknown'));
+            assert.strictEqual(await db.hasIndex('test'), false);
+
+            const index = await db.createIndex<string>('test', 'reversed');
+            await index.set('a', 'hello');
+            assert.strictEqual(await index.get('a'), 'hello');
+            assert.strictEqual(await index.get('a', 'utf8'), 'olleh');
+            const nested = await index.createIndex<string>('nested', 'reversed');
+            await nested.set('b', 'abc');
+            assert.strictEqual(await nested.get('b', 'utf8'), 'cba');
+
+            await db.deleteIndex('test');
+            await assertDbEmpty();
+        });
+    });
+
+    describe('encryption', () => {
+        const keys = { old: Buffer.alloc(32, 1), new: Buffer.alloc(32, 2) };
+        let currentKey = 'old';
+        const keyProvider = { currentKeyId: () => currentKey, getKey: (id: string) => keys[id], getHashKey: () => Buffer.alloc(32, 3) };
+
+        async function rawEntries(): Promise<string> {
+            const entries = [];
+            for await (const { key, value } of db.iterator({ valueEncoding: 'binary' }).asGenerator()) {
+                entries.push(key + value.toString('latin1'));
+            }
+            return entries.join('\n');
+        }
+
+        it('encrypt values and hash keys', async () => {
+            const encrypted = new AurumDB((db as any).db, {}, undefined, undefined, undefined, { keyProvider });
+            const index = await encrypted.createIndex<any>('test', 'json');
+            const hashed = await encrypted.createIndex<string>('hashed', undefined, undefined, { hashKeys: true });
+            const plain = await encrypted.createIndex<string>('plain', undefined, undefined, false);
+            await assert.rejects(encrypted.createOrderedCollection('list', undefined, undefined, { hashKeys: true }));
+
+            const token = new CancellationToken();
+            const ds = await index.observeKey('alice', token);
+            await index.set('alice', { email: 'alice@example.com' });
+            assert.deepStrictEqual(ds.value, { email: 'alice@example.com' });
+            await hashed.set('bob', 'secret-bob');
+            await plain.set('carol', 'visible-carol');
+            await encrypted.transaction(async (tx) => (await tx.getIndex<any>('test')).set('dave', { email: 'dave@example.com' }));
+
+            const raw = await rawEntries();
+            assert.ok(!raw.includes('example.com'));
+            assert.ok(raw.includes('alice'));
+            assert.ok(!raw.includes('bob'));
+            assert.ok(raw.includes('visible-carol'));
+
+            assert.deepStrictEqual(await index.get('dave'), { email: 'dave@example.com' });
+            const entries = [];
+            for await (const entry of hashed.iterator().asGenerator()) {
+                entries.push(entry);
+            }
+            assert.deepStrictEqual(entries, [{ key: 'bob', value: 'secret-bob' }]);
+
+            const snapshot = encrypted.snapshot();
+            assert.strictEqual(await (await snapshot.getIndex<string>('hashed')).get('bob'), 'secret-bob');
+            assert.deepStrictEqual((await (await snapshot.getIndex<any>('test')).get('alice')).email, 'alice@example.com');
+            await snapshot.release();
+
+            token.cancel();
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('find by secondary keys of encrypted indexes', async () => {
+            const encrypted = new AurumDB((db as any).db, {}, undefined, undefined, undefined, { keyProvider });
+            for (const hashKeys of [false, true]) {
+                const index = await encrypted.createIndex<{ tag: string; group: string }>(hashKeys ? 'hashed' : 'test', 'json', undefined, { hashKeys });
+                let extracted: 'tag' | 'group' = 'tag';
+                index.createSecondaryIndex('by', (v) => v[extracted]);
+                await index.set('a', { tag: 'x', group: 'g' });
+                await index.set('b', { tag: 'x', group: 'h' });
+                assert.deepStrictEqual((await index.findBy('by', 'x')).map((e) => e.key).sort(), ['a', 'b']);
+
+                extracted = 'group';
+                await index.rebuildSecondaryIndex('by');
+                assert.deepStrictEqual(await index.findBy('by', 'x'), []);
+                assert.deepStrictEqual(await index.findBy('by', 'g'), [{ key: 'a', value: { tag: 'x', group: 'g' } }]);
+            }
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('rotate keys', async () => {
+            const encrypted = new AurumDB((db as any).db, {}, undefined, undefined, undefined, { keyProvider });
+            const index = await encrypted.createIndex<string>('test', undefined, undefined, { hashKeys: true });
+            const collection = await encrypted.createOrderedCollection<string>('list');
+            for (let i = 0; i < 5; i++) {
+                await index.set('key' + i, 'value' + i);
+                await collection.push('item' + i);
+            }
+
+            currentKey = 'new';
+            await index.set('key5', 'value5');
+            // Every value comes with its version
+            assert.strictEqual(await encrypted.rotateEncryptionKey('test'), 10);
+            assert.strictEqual(await encrypted.rotateEncryptionKey('list', 'ordered'), 5);
+            assert.strictEqual(await encrypted.rotateEncryptionKey('test'), 0);
+            await assert.rejects(db.rotateEncryptionKey('test'));
+
+            delete keys.old;
+            assert.strictEqual(await index.get('key3'), 'value3');
+            assert.deepStrictEqual(await collection.toArray(), ['item0', 'item1', 'item2', 'item3', 'item4']);
+
+            keys.old = Buffer.alloc(32, 1);
+            currentKey = 'old';
+            await db.clear();
+            await assertDbEmpty();
+        });
+    });
+
+    describe('change log', () => {
+        it('record, replay and trim changes', async () => {
+            const internal: LevelUp = (db as any).db;
+            const changeLog = new AurumDBChangeLog(internal, { maxEntries: 3 });
+            await changeLog.initialize();
+            const logged = new AurumDB(internal, {}, changeLog);
+
+            const index = await logged.createIndex<string>('test');
+            await index.set('a', '1');
+            await index.delete('a');
+
+            const token = new CancellationToken();
+            const ads = await logged.observeChanges(0, token);
+            assert.deepStrictEqual(
+                ads.getData().map((c) => [c.seq, c.structure, c.type, c.key, c.value]),
+                [
+                    [1, 'test', 'put', 'a', '1'],
+                    [2, 'test', 'del', 'a', undefined],
+                ]
+            );
+
+            await index.set('b', '2');
+            await index.clear();
+            assert.deepStrictEqual(
+                ads.getData().map((c) => c.type),
+                ['put', 'del', 'put', 'clear']
+            );
+            assert.strictEqual(logged.getLastChangeSeq(), 4);
+
+            const replayed = [];
+            for await (const change of logged.changesSince(2)) {
+                replayed.push(change.seq);
+            }
+            assert.deepStrictEqual(replayed, [3, 4]);
+
+            await changeLog.trim();
+            const retained = [];
+            for await (const change of logged.changesSince(0)) {
+                retained.push(change.seq);
+            }
+            assert.deepStrictEqual(retained, [2, 3, 4]);
+
+            token.cancel();
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('write changes in the batch of the data', async () => {
+            const internal: LevelUp = (db as any).db;
+            const changeLog = new AurumDBChangeLog(internal);
+            await changeLog.initialize();
+            const logged = new AurumDB(internal, {}, changeLog);
+
+            const batches = [];
+            const onBatch = (ops) => batches.push(ops.map((op) => op.key));
+            internal.on('batch', onBatch);
+            const collection = await logged.createOrderedCollection<string>('list', 'json');
+            await collection.push('a');
+            await logged.createIndex<string>('test');
+            await logged.transaction(async (tx) => (await tx.getIndex<string>('test')).set('b', '2'));
+            internal.off('batch', onBatch);
+            assert.ok(batches.some((keys) => keys.includes('!testindex!b') && keys.includes('!changeLog!0000000000000002')));
+
+            const changes = [];
+            for await (const change of logged.changesSince(0)) {
+                changes.push([change.seq, change.structure, change.type, change.key, change.value]);
+            }
+            assert.deepStrictEqual(changes, [
+                [1, 'list', 'put', '0000000000000000', 'a'],
+                [2, 'test', 'put', 'b', '2'],
+            ]);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('record values of codec indexes', async () => {
+            const internal: LevelUp = (db as any).db;
+            const changeLog = new AurumDBChangeLog(internal);
+            await changeLog.initialize();
+            const logged = new AurumDB(internal, {}, changeLog);
+            const value = { big: BigInt(10), date: new Date(1600000000123), map: new Map([['a', 1]]), buffer: Buffer.from([0, 255]) };
+
+            const token = new CancellationToken();
+            const live = await logged.observeChanges(0, token);
+            await (await logged.createIndex<any>('rich', 'rich-json')).set('a', value);
+            await logged.transaction(async (tx) => (await tx.getIndex<any>('rich')).set('b', value));
+            await (await logged.createIndex<any>('packed', 'msgpack')).set('a', { buffer: value.buffer });
+            await (await logged.createIndex<Buffer>('raw', 'binary')).set('a', value.buffer);
+
+            const replayed: AurumDBChange[] = [];
+            for await (const change of logged.changesSince(0)) {
+                replayed.push(change);
+            }
+            for (const changes of [replayed, live.getData()]) {
+                assert.deepStrictEqual(
+                    changes.map((change) => [change.structure, change.key]),
+                    [
+                        ['rich', 'a'],
+                        ['rich', 'b'],
+                        ['packed', 'a'],
+                        ['raw', 'a'],
+                    ]
+                );
+                for (const change of changes.slice(0, 2)) {
+                    assert.strictEqual(change.value.big, value.big);
+                    assert.strictEqual(change.value.date.getTime(), value.date.getTime());
+                    assert.deepStrictEqual(Array.from(change.value.map), Array.from(value.map));
+                    assert.deepStrictEqual(Buffer.from(change.value.buffer), value.buffer);
+                }
+                assert.deepStrictEqual(Buffer.from(changes[2].value.buffer), value.buffer);
+                assert.deepStrictEqual(changes[3].value, value.buffer);
+            }
+
+            token.cancel();
+            await db.clear();
+            await assertDbEmpty();
+        });
+
+        it('leave the pointers of linked collections out', async () => {
+            const internal: LevelUp = (db as any).db;
+            const changeLog = new AurumDBChangeLog(internal);
+            await changeLog.initialize();
+            const logged = new AurumDB(internal, {}, changeLog);
+
+            const collection = await logged.createLinkedCollection<string>('list');
+            await collection.push('a');
+            await collection.push('b');
+
+            const changes = [];
+            for await (const change of logged.changesSince(0)) {
+                changes.push([change.type, change.key, change.value?.value]);
+            }
+            assert.deepStrictEqual(changes, [
+                ['put', '0', 'a'],
+                ['put', '1', 'b'],
+                ['put', '0', 'a'],
+            ]);
+
+            await db.clear();
+            await assertDbEmpty();
+        });
     });
 
     function sleep(time: number): Promise<void> {
@@ -397,7 +1863,7 @@ describe('test', () => {
     }
 });
 
-function streamToString(stream: ReadStream): Promise<string> {
+function streamToString(stream: Readable): Promise<string> {
     const chunks = [];
     return new Promise((resolve, reject) => {
         stream.on('data', (chunk) => chunks.push(chunk));